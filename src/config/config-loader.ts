@@ -112,6 +112,24 @@ export class ConfigLoader {
       }
     }
 
+    // Load discovery concurrency from environment
+    const concurrency = parseNonNegative(process.env.MCP_DISCOVERY_CONCURRENCY);
+    if (concurrency !== undefined) {
+      config.concurrency = concurrency;
+    }
+
+    // Load per-server discovery timeout from environment
+    const serverTimeout = parseNonNegative(process.env.MCP_DISCOVERY_TIMEOUT);
+    if (serverTimeout !== undefined) {
+      config.serverTimeout = serverTimeout;
+    }
+
+    // Load discovery cache TTL from environment
+    const cacheTtl = parseNonNegative(process.env.MCP_DISCOVERY_CACHE_TTL);
+    if (cacheTtl !== undefined) {
+      config.cacheTtl = cacheTtl;
+    }
+
     // Return config if any properties were loaded
     return Object.keys(config).length > 0 ? config : null;
   }
@@ -127,6 +145,9 @@ export class ConfigLoader {
       complexityRules: customConfig.complexityRules || defaultConfig.complexityRules,
       durationRules: customConfig.durationRules || defaultConfig.durationRules,
       categoryRules: customConfig.categoryRules || defaultConfig.categoryRules,
+      concurrency: customConfig.concurrency ?? defaultConfig.concurrency,
+      serverTimeout: customConfig.serverTimeout ?? defaultConfig.serverTimeout,
+      cacheTtl: customConfig.cacheTtl ?? defaultConfig.cacheTtl,
     };
   }
 
@@ -160,3 +181,9 @@ export class ConfigLoader {
     await fs.writeFile(configPath, JSON.stringify(this.config, null, 2));
   }
 }
+
+// A non-negative number, or undefined when the value is missing or invalid
+function parseNonNegative(value: string | undefined): number | undefined {
+  const number = Number(value);
+  return value && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
@@ -1,3 +1,5 @@
+import { MCPServerInfo } from '../types.js';
+
 export interface DiscoveryConfig {
   configPaths: string[];
   essentialServers: EssentialServerConfig[];
@@ -5,13 +7,20 @@ export interface DiscoveryConfig {
   complexityRules: ComplexityRule[];
   durationRules: DurationRule[];
   categoryRules: CategoryRule[];
+  concurrency: number; // servers queried at the same time
+  serverTimeout: number; // timeout of each request to a server during discovery, handshake included, in milliseconds
+  cacheTtl: number; // how long discovered tools are reused from the cache, in milliseconds; 0 disables the cache
 }
 
 export interface EssentialServerConfig {
   name: string;
-  command: string;
+  type?: MCPServerInfo['type'];
+  command?: string; // local servers
   args: string[];
   env: Record<string, string>;
+  url?: string; // remote servers
+  headers?: Record<string, string>;
+  auth?: MCPServerInfo['auth'];
   description: string;
   version: string;
   capabilities: {
@@ -341,5 +350,9 @@ export const defaultDiscoveryConfig: DiscoveryConfig = {
     { pattern: 'terminal|command|execute', category: 'terminal', description: 'Terminal operations' },
     { pattern: 'wikipedia|knowledge|article', category: 'knowledge', description: 'Knowledge operations' },
     { pattern: 'thinking|analysis|reason', category: 'analysis', description: 'Analysis operations' },
-  ]
+  ],
+
+  concurrency: 4,
+  serverTimeout: 3000,
+  cacheTtl: 24 * 60 * 60 * 1000,
 };
@@ -0,0 +1,24 @@
+import { RetryConfig } from '../managers/reliability-manager.js';
+
+/**
+ * Retry behavior applied to every tool call unless overridden below.
+ * Most tools are local and deterministic, so by default a failure is only recorded, not retried.
+ */
+export const defaultToolRetryConfig: Partial<RetryConfig> = {
+  maxRetries: 0,
+  backoffMultiplier: 2,
+  initialDelay: 500,
+  maxDelay: 10000,
+};
+
+/**
+ * Per-tool retry overrides for tools that depend on external processes or services.
+ * Tools with side effects (workflows, memory writes) are deliberately absent.
+ */
+export const toolRetryPolicies: Record<string, Partial<RetryConfig>> = {
+  search_instructions: { maxRetries: 2, initialDelay: 1000 },
+  load_instruction: { maxRetries: 2, initialDelay: 1000 },
+  read_graph: { maxRetries: 2, initialDelay: 200 },
+  search_nodes: { maxRetries: 2, initialDelay: 200 },
+  open_nodes: { maxRetries: 2, initialDelay: 200 },
+};
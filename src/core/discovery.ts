@@ -1,19 +1,58 @@
+import { createHash } from 'crypto';
 import { glob } from 'glob';
 import { readFile, readdir, stat, access } from 'fs/promises';
-import { join, dirname } from 'path';
+import { watch, FSWatcher } from 'fs';
+import { join, dirname, basename } from 'path';
 import { homedir } from 'os';
-import { spawn, ChildProcess } from 'child_process';
+import { Prompt, Resource, Tool } from '@modelcontextprotocol/sdk/types.js';
 import { MCPServerInfo, ToolInfo, MCPServerInfoSchema } from '../types.js';
 import { ConfigLoader } from '../config/config-loader.js';
 import { DiscoveryConfig, EssentialServerConfig, FallbackToolConfig } from '../config/discovery-config.js';
+import { ServerSessionManager } from './session-manager.js';
+import { CachedServerDiscovery, DiscoveryCacheStorage } from '../storage/discovery-cache.js';
+
+/**
+ * Outcome of querying a server: ok when it answered tools/list, fallback when it could not
+ * be queried and configured fallback tools are used instead, failed when there are none
+ */
+export type ServerDiscoveryState = 'ok' | 'fallback' | 'failed';
+
+// Changes are applied once no further change arrived for this long, in milliseconds
+const CHANGE_DEBOUNCE = 500;
+
+export interface ServerDiscoveryStatus {
+  serverName: string;
+  status: ServerDiscoveryState;
+  tools: number;
+  resources: number;
+  prompts: number;
+  error?: string; // why the server could not be queried
+  warnings?: string[]; // resources/list or prompts/list failures, which do not fail discovery
+  cachedAt?: string; // set when the result was read from the discovery cache instead of the server
+  discoveredAt: string;
+}
 
 export class MCPServerDiscovery {
   private servers: Map<string, MCPServerInfo> = new Map();
   private tools: Map<string, ToolInfo> = new Map();
+  private serverTools: Map<string, ToolInfo[]> = new Map(); // by server name
+  private resources: Map<string, Resource[]> = new Map(); // by server name
+  private prompts: Map<string, Prompt[]> = new Map(); // by server name
+  private statuses: Map<string, ServerDiscoveryStatus> = new Map();
   private configLoader: ConfigLoader;
   private config!: DiscoveryConfig;
+  private watchers: FSWatcher[] = [];
+  private pendingServers = new Set<string>();
+  private configChanged = false;
+  private changeTimer?: NodeJS.Timeout;
+  private changes: Promise<void> = Promise.resolve();
 
-  constructor() {
+  /**
+   * Invoked with the names of the servers that were re-discovered or removed after a change
+   */
+  onchange?: (serverNames: string[]) => void | Promise<void>;
+
+  constructor(private sessions: ServerSessionManager, private cache: DiscoveryCacheStorage = new DiscoveryCacheStorage()) {
     this.configLoader = new ConfigLoader();
   }
 
@@ -21,6 +60,18 @@ export class MCPServerDiscovery {
    * Discover MCP servers from common configuration locations
    */
   async discoverServers(): Promise<MCPServerInfo[]> {
+    const discoveredServers = await this.loadServers();
+    for (const server of discoveredServers) {
+      this.servers.set(server.name, server);
+    }
+    return discoveredServers;
+  }
+
+  /**
+   * Load the configuration and list the servers it and the environment define, without
+   * storing them
+   */
+  private async loadServers(): Promise<MCPServerInfo[]> {
     // Load configuration
     this.config = await this.configLoader.loadConfig();
     
@@ -51,11 +102,6 @@ export class MCPServerDiscovery {
     const essentialServers = this.getEssentialServers();
     discoveredServers.push(...essentialServers);
 
-    // Store discovered servers
-    for (const server of discoveredServers) {
-      this.servers.set(server.name, server);
-    }
-
     return discoveredServers;
   }
 
@@ -93,23 +139,14 @@ export class MCPServerDiscovery {
       const content = await readFile(configPath, 'utf-8');
       const config = JSON.parse(content);
 
-      // Handle Cursor MCP configuration format
+      // Handle Cursor and Claude Desktop MCP configuration format
       if (config.mcpServers) {
-        return Object.entries(config.mcpServers).map(([name, serverConfig]: [string, any]) => {
-          return MCPServerInfoSchema.parse({
-            name,
-            command: serverConfig.command,
-            args: serverConfig.args || [],
-            env: serverConfig.env || {},
-            description: `MCP server: ${name}`,
-            version: '1.0.0',
-            capabilities: {
-              tools: true,
-              resources: false,
-              prompts: false,
-            },
-          });
-        });
+        return Object.entries(config.mcpServers).map(([name, serverConfig]) => parseConfigEntry(name, serverConfig));
+      }
+
+      // Handle VS Code MCP configuration format
+      if (config.servers && !Array.isArray(config.servers)) {
+        return Object.entries(config.servers).map(([name, serverConfig]) => parseConfigEntry(name, serverConfig));
       }
 
       // Handle other config formats
@@ -157,145 +194,324 @@ export class MCPServerDiscovery {
   }
 
   /**
-   * Analyze tools from discovered servers
+   * Analyze tools from discovered servers, querying up to `concurrency` servers at a time.
+   * Servers queried within the cache TTL are read from the cache unless `refresh` is set.
    */
-  async analyzeTools(): Promise<ToolInfo[]> {
-    const tools: ToolInfo[] = [];
+  async analyzeTools(options: { refresh?: boolean } = {}): Promise<ToolInfo[]> {
+    const cached = await this.loadCache();
+
+    // Built aside and swapped in, so lookups during discovery still see the previous tools
+    const serverTools = new Map<string, ToolInfo[]>();
+    await mapWithConcurrency(Array.from(this.servers.entries()), this.config.concurrency, async ([serverName, serverInfo]) => {
+      serverTools.set(serverName, await this.extractToolsFromServer(serverName, serverInfo, cached, options.refresh));
+    });
+    this.serverTools = serverTools;
+    this.rebuildToolIndex();
+    this.dropRemovedServers();
+
+    await this.saveCache(cached);
+    return this.getTools();
+  }
+
+  /**
+   * Query some servers again, bypassing the cache, and replace their tools
+   */
+  async refreshServers(serverNames: string[]): Promise<void> {
+    const cached = await this.loadCache();
+    const servers = serverNames.filter(name => this.servers.has(name));
+    await mapWithConcurrency(servers, this.config.concurrency, async serverName => {
+      this.serverTools.set(serverName, await this.extractToolsFromServer(serverName, this.servers.get(serverName)!, cached, true));
+    });
+    this.rebuildToolIndex();
+    await this.saveCache(cached);
+  }
 
-    for (const [serverName, serverInfo] of this.servers) {
+  /**
+   * Watch the files in `configPaths` and the list_changed notifications of running servers.
+   * Affected servers are re-discovered, then `onchange` is invoked.
+   */
+  watch(): void {
+    this.unwatch();
+
+    const directories = new Map<string, Set<string>>();
+    for (const configPath of this.configLoader.expandPaths(this.config.configPaths)) {
+      const files = directories.get(dirname(configPath)) ?? new Set<string>();
+      files.add(basename(configPath));
+      directories.set(dirname(configPath), files);
+    }
+
+    for (const [directory, files] of directories) {
       try {
-        const serverTools = await this.extractToolsFromServer(serverName, serverInfo);
-        tools.push(...serverTools);
+        // The directory is watched so that config files created later are noticed too
+        const watcher = watch(directory, (event, filename) => {
+          if (filename && files.has(filename.toString())) {
+            this.scheduleChange({ config: true });
+          }
+        });
+        watcher.on('error', error => console.error(`Stopped watching ${directory}:`, error.message));
+        watcher.unref();
+        this.watchers.push(watcher);
       } catch (error) {
-        console.error(`Failed to analyze tools from server ${serverName}:`, error);
-        // Add fallback tools for known server types
-        const fallbackTools = this.getFallbackTools(serverName, serverInfo);
-        tools.push(...fallbackTools);
+        // Directories that do not exist are not watched
+        continue;
       }
     }
 
-    // Store tools
-    for (const tool of tools) {
-      this.tools.set(tool.name, tool);
-    }
-
-    return tools;
+    this.sessions.onlistchanged = (serverName, list) => {
+      console.error(`MCP server ${serverName} reported that its ${list} changed`);
+      this.scheduleChange({ serverName });
+    };
   }
 
   /**
-   * Extract tools from a specific server
+   * Stop watching for changes
    */
-  private async extractToolsFromServer(serverName: string, serverInfo: MCPServerInfo): Promise<ToolInfo[]> {
-    const tools: ToolInfo[] = [];
+  unwatch(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+    this.sessions.onlistchanged = undefined;
+    clearTimeout(this.changeTimer);
+  }
 
-    try {
-      // Try to connect to the server and query its tools
-      const serverTools = await this.queryServerTools(serverName, serverInfo);
-      tools.push(...serverTools);
-    } catch (error) {
-      // If connection fails, use fallback tools based on server name/type
-      const fallbackTools = this.getFallbackTools(serverName, serverInfo);
-      tools.push(...fallbackTools);
+  private scheduleChange(change: { config?: boolean; serverName?: string }): void {
+    this.configChanged ||= change.config === true;
+    if (change.serverName) {
+      this.pendingServers.add(change.serverName);
     }
 
-    return tools;
+    // Editors save in several steps and servers may notify in bursts
+    clearTimeout(this.changeTimer);
+    this.changeTimer = setTimeout(() => {
+      const configChanged = this.configChanged;
+      const serverNames = [...this.pendingServers];
+      this.configChanged = false;
+      this.pendingServers.clear();
+      this.changes = this.changes
+        .then(() => this.applyChanges(configChanged, serverNames))
+        .catch(error => console.error('Failed to apply discovery changes:', error instanceof Error ? error.message : error));
+    }, CHANGE_DEBOUNCE);
+    this.changeTimer.unref();
   }
 
   /**
-   * Query a server for its tools using MCP protocol
+   * Re-discover the servers that changed: those named, and with a configuration change, the
+   * servers that were added or whose command, args or env changed. Removed servers are dropped.
    */
-  private async queryServerTools(serverName: string, serverInfo: MCPServerInfo): Promise<ToolInfo[]> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error(`Timeout connecting to server ${serverName}`));
-      }, 3000); // Reduced timeout to 3 seconds
-
-      try {
-        const child = spawn(serverInfo.command, serverInfo.args, {
-          env: { ...process.env, ...serverInfo.env },
-          stdio: ['pipe', 'pipe', 'pipe'],
-        });
-
-        let output = '';
-        let errorOutput = '';
+  private async applyChanges(configChanged: boolean, serverNames: string[]): Promise<void> {
+    const affected = new Set(serverNames);
+    const removed: string[] = [];
+
+    if (configChanged) {
+      // The servers are swapped in once loaded, so lookups meanwhile still see the previous ones
+      const servers = new Map<string, MCPServerInfo>();
+      for (const serverInfo of await this.loadServers()) {
+        const before = this.servers.get(serverInfo.name);
+        if (before && cacheKey(before) === cacheKey(serverInfo)) {
+          // Keeps the capabilities the server announced in its handshake
+          servers.set(serverInfo.name, before);
+        } else {
+          servers.set(serverInfo.name, serverInfo);
+          affected.add(serverInfo.name);
+        }
+      }
 
-        child.stdout?.on('data', (data) => {
-          output += data.toString();
-        });
+      for (const serverName of this.servers.keys()) {
+        if (!servers.has(serverName)) {
+          removed.push(serverName);
+          affected.delete(serverName);
+        }
+      }
+      this.servers = servers;
+      this.dropRemovedServers();
+      this.rebuildToolIndex();
+      for (const serverName of removed) {
+        await this.sessions.closeSession(serverName);
+      }
+    }
 
-        child.stderr?.on('data', (data) => {
-          errorOutput += data.toString();
-        });
+    if (affected.size === 0 && removed.length === 0) {
+      return;
+    }
 
-        child.on('error', (error) => {
-          clearTimeout(timeout);
-          reject(new Error(`Failed to spawn server ${serverName}: ${error.message}`));
-        });
+    await this.refreshServers([...affected]);
+    await this.onchange?.([...affected, ...removed]);
+  }
 
-        child.on('close', (code) => {
-          clearTimeout(timeout);
-          if (code !== 0) {
-            reject(new Error(`Server ${serverName} exited with code ${code}: ${errorOutput}`));
-            return;
-          }
+  private rebuildToolIndex(): void {
+    const tools = new Map<string, ToolInfo>();
+    for (const serverTools of this.serverTools.values()) {
+      for (const tool of serverTools) {
+        tools.set(tool.name, tool);
+      }
+    }
+    this.tools = tools;
+  }
 
-          try {
-            // Parse the MCP response to extract tools
-            const tools = this.parseMCPToolsResponse(output, serverName);
-            resolve(tools);
-          } catch (parseError) {
-            reject(new Error(`Failed to parse response from server ${serverName}: ${parseError instanceof Error ? parseError.message : String(parseError)}`));
-          }
-        });
+  /**
+   * Forget the tools, resources, prompts and status of servers no longer configured
+   */
+  private dropRemovedServers(): void {
+    for (const map of [this.serverTools, this.resources, this.prompts, this.statuses]) {
+      for (const serverName of map.keys()) {
+        if (!this.servers.has(serverName)) {
+          map.delete(serverName);
+        }
+      }
+    }
+  }
 
-        // Send MCP list_tools request
-        const request = {
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'tools/list',
-          params: {},
-        };
+  /**
+   * Extract tools, resources and prompts from a specific server, and record its discovery status.
+   * Successful queries are written to `cached`.
+   */
+  private async extractToolsFromServer(
+    serverName: string,
+    serverInfo: MCPServerInfo,
+    cached: Record<string, CachedServerDiscovery>,
+    refresh = false
+  ): Promise<ToolInfo[]> {
+    const key = cacheKey(serverInfo);
+    const entry = cached[key];
+    if (!refresh && entry && this.isFresh(entry)) {
+      this.applyDiscovery(serverName, serverInfo, entry);
+      this.setStatus(serverName, 'ok', entry.tools.length, undefined, [], entry.cachedAt);
+      return entry.tools.map(tool => this.toToolInfo(tool, serverName));
+    }
 
-        child.stdin?.write(JSON.stringify(request) + '\n');
-        child.stdin?.end();
+    let tools: Tool[];
+    try {
+      // Connect to the server and query its tools
+      tools = await this.queryServerTools(serverInfo);
+    } catch (error) {
+      // If the server cannot be queried, use fallback tools based on server name/type
+      const fallbackTools = this.getFallbackTools(serverName, serverInfo);
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to query tools from server ${serverName}${fallbackTools.length > 0 ? ', using fallback tools' : ''}: ${message}`);
+      delete cached[key];
+      this.resources.delete(serverName);
+      this.prompts.delete(serverName);
+      this.setStatus(serverName, fallbackTools.length > 0 ? 'fallback' : 'failed', fallbackTools.length, message);
+      return fallbackTools;
+    }
 
+    // Resources and prompts are optional; failing to list them does not fail the server
+    const warnings: string[] = [];
+    const listOrWarn = async <T>(list: Promise<T[]>): Promise<T[]> => {
+      try {
+        return await list;
       } catch (error) {
-        clearTimeout(timeout);
-        reject(new Error(`Failed to query server ${serverName}: ${error instanceof Error ? error.message : String(error)}`));
+        warnings.push(error instanceof Error ? error.message : String(error));
+        return [];
       }
+    };
+    const resources = await listOrWarn(this.sessions.listResources(serverInfo, { timeout: this.config.serverTimeout }));
+    const prompts = await listOrWarn(this.sessions.listPrompts(serverInfo, { timeout: this.config.serverTimeout }));
+
+    // Report what the server announced in the handshake rather than what its config claims
+    const capabilities = this.sessions.getConnection(serverInfo).getServerCapabilities();
+    const discovery: CachedServerDiscovery = {
+      serverName,
+      cachedAt: new Date().toISOString(),
+      tools,
+      resources,
+      prompts,
+      capabilities: capabilities && { tools: !!capabilities.tools, resources: !!capabilities.resources, prompts: !!capabilities.prompts },
+    };
+    this.applyDiscovery(serverName, serverInfo, discovery);
+
+    // Partial results are not cached, so the failed lists are requested again next time
+    if (warnings.length === 0) {
+      cached[key] = discovery;
+    }
+
+    this.setStatus(serverName, 'ok', tools.length, undefined, warnings);
+    return tools.map(tool => this.toToolInfo(tool, serverName));
+  }
+
+  /**
+   * Query a server for its tools using MCP protocol
+   */
+  private async queryServerTools(serverInfo: MCPServerInfo): Promise<Tool[]> {
+    return this.sessions.listTools(serverInfo, { timeout: this.config.serverTimeout });
+  }
+
+  private applyDiscovery(serverName: string, serverInfo: MCPServerInfo, discovery: CachedServerDiscovery): void {
+    this.resources.set(serverName, discovery.resources);
+    this.prompts.set(serverName, discovery.prompts);
+    if (discovery.capabilities) {
+      this.servers.set(serverName, { ...serverInfo, capabilities: discovery.capabilities });
+    }
+  }
+
+  private setStatus(
+    serverName: string,
+    status: ServerDiscoveryState,
+    tools: number,
+    error?: string,
+    warnings: string[] = [],
+    cachedAt?: string
+  ): void {
+    this.statuses.set(serverName, {
+      serverName,
+      status,
+      tools,
+      resources: this.resources.get(serverName)?.length ?? 0,
+      prompts: this.prompts.get(serverName)?.length ?? 0,
+      ...(error && { error }),
+      ...(warnings.length > 0 && { warnings }),
+      ...(cachedAt && { cachedAt }),
+      discoveredAt: new Date().toISOString(),
     });
   }
 
+  private isFresh(entry: CachedServerDiscovery): boolean {
+    return Date.now() - new Date(entry.cachedAt).getTime() < this.config.cacheTtl;
+  }
+
   /**
-   * Parse MCP tools response
+   * Read the discovery cache; a missing or unreadable cache is treated as empty
    */
-  private parseMCPToolsResponse(output: string, serverName: string): ToolInfo[] {
-    const lines = output.split('\n').filter(line => line.trim());
-    const tools: ToolInfo[] = [];
+  private async loadCache(): Promise<Record<string, CachedServerDiscovery>> {
+    if (this.config.cacheTtl <= 0) {
+      return {};
+    }
+    try {
+      return await this.cache.load();
+    } catch (error) {
+      console.error('Failed to read the discovery cache:', error instanceof Error ? error.message : error);
+      return {};
+    }
+  }
 
-    for (const line of lines) {
-      try {
-        const response = JSON.parse(line);
-        if (response.result?.tools) {
-          for (const tool of response.result.tools) {
-            tools.push({
-              name: tool.name,
-              description: tool.description || `Tool from ${serverName}`,
-              inputSchema: tool.inputSchema || {},
-              serverName,
-              category: this.inferCategory(tool.name, tool.description),
-              estimatedComplexity: this.estimateComplexity(tool.name, tool.description),
-              estimatedDuration: this.estimateDuration(tool.name, tool.description),
-            });
-          }
-        }
-      } catch (error) {
-        // Skip invalid JSON lines
-        continue;
-      }
+  /**
+   * Write the entries that are still fresh back to the discovery cache
+   */
+  private async saveCache(cached: Record<string, CachedServerDiscovery>): Promise<void> {
+    if (this.config.cacheTtl <= 0) {
+      return;
     }
+    const fresh = Object.fromEntries(Object.entries(cached).filter(([, entry]) => this.isFresh(entry)));
+    try {
+      await this.cache.save(fresh);
+    } catch (error) {
+      console.error('Failed to write the discovery cache:', error instanceof Error ? error.message : error);
+    }
+  }
 
-    return tools;
+  /**
+   * Convert an MCP tool definition into ToolInfo
+   */
+  private toToolInfo(tool: Tool, serverName: string): ToolInfo {
+    return {
+      name: tool.name,
+      description: tool.description || `Tool from ${serverName}`,
+      inputSchema: tool.inputSchema || {},
+      outputSchema: tool.outputSchema,
+      serverName,
+      category: this.inferCategory(tool.name, tool.description),
+      estimatedComplexity: this.estimateComplexity(tool.name, tool.description),
+      estimatedDuration: this.estimateDuration(tool.name, tool.description),
+    };
   }
 
   /**
@@ -388,6 +604,31 @@ export class MCPServerDiscovery {
     return Array.from(this.tools.values());
   }
 
+  /**
+   * Get the resources listed by discovered servers, optionally of one server
+   */
+  getResources(serverName?: string): (Resource & { serverName: string })[] {
+    return Array.from(this.resources.entries())
+      .filter(([name]) => serverName === undefined || name === serverName)
+      .flatMap(([name, resources]) => resources.map(resource => ({ ...resource, serverName: name })));
+  }
+
+  /**
+   * Get the prompts listed by discovered servers, optionally of one server
+   */
+  getPrompts(serverName?: string): (Prompt & { serverName: string })[] {
+    return Array.from(this.prompts.entries())
+      .filter(([name]) => serverName === undefined || name === serverName)
+      .flatMap(([name, prompts]) => prompts.map(prompt => ({ ...prompt, serverName: name })));
+  }
+
+  /**
+   * Get the discovery status of a server, or undefined when its tools were not analyzed yet
+   */
+  getServerStatus(serverName: string): ServerDiscoveryStatus | undefined {
+    return this.statuses.get(serverName);
+  }
+
   /**
    * Get tools by category
    */
@@ -403,14 +644,12 @@ export class MCPServerDiscovery {
   }
 
   /**
-   * Reload configuration and rediscover servers
+   * Reload configuration and rediscover servers, querying every server again
    */
   async reloadConfiguration(): Promise<void> {
-    this.config = await this.configLoader.loadConfig();
-    this.servers.clear();
-    this.tools.clear();
-    await this.discoverServers();
-    await this.analyzeTools();
+    const servers = await this.loadServers();
+    this.servers = new Map(servers.map(server => [server.name, server]));
+    await this.analyzeTools({ refresh: true });
   }
 
   /**
@@ -428,3 +667,74 @@ export class MCPServerDiscovery {
     await this.reloadConfiguration();
   }
 }
+
+/**
+ * A server entry of a Cursor, Claude Desktop or VS Code config. Local servers have a command;
+ * remote ones a url (`serverUrl` in some clients), and `sse`, `http` or `streamable-http` as
+ * their type. Environment variables are substituted for ${VAR} and ${env:VAR} in the url,
+ * headers and auth of remote entries, so configs need not contain secrets.
+ */
+function parseConfigEntry(name: string, serverConfig: any): MCPServerInfo {
+  const url = serverConfig.url ?? serverConfig.serverUrl;
+  return MCPServerInfoSchema.parse({
+    name,
+    type: TRANSPORT_TYPES[serverConfig.type ?? serverConfig.transport],
+    command: serverConfig.command,
+    args: serverConfig.args || [],
+    env: serverConfig.env || {},
+    url: url && expandVariables(url),
+    headers: serverConfig.headers && expandVariables(serverConfig.headers),
+    auth: serverConfig.auth && expandVariables(serverConfig.auth),
+    description: `MCP server: ${name}`,
+    version: '1.0.0',
+    capabilities: {
+      tools: true,
+      resources: false,
+      prompts: false,
+    },
+  });
+}
+
+// Transport names used by MCP client configs
+const TRANSPORT_TYPES: Record<string, MCPServerInfo['type']> = {
+  stdio: 'stdio',
+  sse: 'sse',
+  http: 'http',
+  'streamable-http': 'http',
+  streamableHttp: 'http',
+};
+
+function expandVariables<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(?:env:)?([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, variable) => process.env[variable] ?? '') as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandVariables(item)])) as T;
+  }
+  return value;
+}
+
+// Identifies a server configuration: the same command, args and env, or the same url,
+// headers and auth, list the same tools
+function cacheKey(serverInfo: MCPServerInfo): string {
+  const identity = serverInfo.url && serverInfo.type !== 'stdio'
+    ? [serverInfo.type, serverInfo.url, serverInfo.headers ?? {}, serverInfo.auth ?? null]
+    : [serverInfo.command, serverInfo.args, serverInfo.env ?? {}];
+  return createHash('sha256')
+    .update(JSON.stringify(identity))
+    .digest('hex');
+}
+
+// Run fn over items with at most `limit` calls in flight, keeping the order of the results
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,222 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number; // 0 picks a free port
+  token?: string; // bearer token clients must send; required unless bound to a loopback address
+  sessionIdleTimeout?: number; // in milliseconds, 0 keeps idle sessions open
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  activeRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const MCP_PATH = '/mcp';
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp. Every client session gets its own Server from
+ * `createServer`; the sessions share whatever state those servers are built on. A session
+ * without requests for `sessionIdleTimeout` milliseconds is closed, so clients that go away
+ * without a DELETE do not keep their session forever.
+ */
+export class StreamableHttpServer {
+  private httpServer: http.Server | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private sessionIdleTimeout: number;
+
+  constructor(private createServer: () => Server, private options: HttpServerOptions) {
+    if (!options.token && !isLoopback(options.host)) {
+      throw new Error(`A bearer token (MCP_HTTP_TOKEN) is required to serve on ${options.host}`);
+    }
+    const envTimeout = Number(process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT);
+    this.sessionIdleTimeout = options.sessionIdleTimeout ??
+      (Number.isFinite(envTimeout) && envTimeout >= 0 ? envTimeout : DEFAULT_SESSION_IDLE_TIMEOUT);
+  }
+
+  /**
+   * Start listening; resolves with the URL clients connect to
+   */
+  async listen(): Promise<string> {
+    const httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('Failed to handle HTTP request:', error instanceof Error ? error.message : error);
+        if (!res.headersSent) {
+          sendError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.httpServer = httpServer;
+
+    const address = httpServer.address() as { address: string; port: number; family: string };
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}${MCP_PATH}`;
+  }
+
+  /**
+   * Number of open client sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close every session and stop listening
+   */
+  async close(): Promise<void> {
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => {
+      clearTimeout(session.idleTimer);
+      return session.transport.close().catch(() => undefined);
+    }));
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_PATH) {
+      sendError(res, 404, -32000, 'Not found');
+      return;
+    }
+
+    // A page the browser loaded from another site must not reach a server bound to loopback
+    if (isLoopback(this.options.host) && !isLoopback(hostnameOf(req.headers.host))) {
+      sendError(res, 403, -32000, `Invalid Host header: ${req.headers.host}`);
+      return;
+    }
+
+    if (this.options.token && !this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, 401, -32000, 'Unauthorized');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      // A session is busy while a request is in flight; the GET stream for server
+      // notifications stays open as long as the client does, so it does not count
+      if (req.method !== 'GET') {
+        session.activeRequests++;
+        clearTimeout(session.idleTimer);
+        res.once('close', () => {
+          session.activeRequests--;
+          this.scheduleIdleClose(sessionId, session);
+        });
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = req.method === 'POST' ? await readJson(req) : undefined;
+    } catch (error) {
+      sendError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendError(res, 400, -32000, 'Bad request: no session id, and not an initialize request');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        const session: HttpSession = { transport, activeRequests: 0 };
+        this.sessions.set(id, session);
+        this.scheduleIdleClose(id, session);
+        console.error(`HTTP session ${id} opened (${this.sessions.size} open)`);
+      },
+    });
+    transport.onclose = () => {
+      const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined;
+      if (session?.transport === transport) {
+        clearTimeout(session.idleTimer);
+        this.sessions.delete(transport.sessionId!);
+        console.error(`HTTP session ${transport.sessionId} closed (${this.sessions.size} open)`);
+      }
+    };
+
+    await this.createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private scheduleIdleClose(sessionId: string, session: HttpSession): void {
+    if (this.sessionIdleTimeout <= 0 || session.activeRequests > 0) {
+      return;
+    }
+
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      if (this.sessions.get(sessionId) === session && session.activeRequests === 0) {
+        console.error(`HTTP session ${sessionId} expired after ${this.sessionIdleTimeout}ms without requests`);
+        session.transport.close().catch(() => undefined);
+      }
+    }, this.sessionIdleTimeout);
+    session.idleTimer.unref();
+  }
+
+  private isAuthorized(req: IncomingMessage): boolean {
+    const expected = Buffer.from(`Bearer ${this.options.token}`);
+    const actual = Buffer.from(req.headers.authorization ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+}
+
+function isLoopback(host: string | undefined): boolean {
+  return host === 'localhost' || host === '::1' || host === '[::1]' || host?.startsWith('127.') === true;
+}
+
+// Hostname of a Host header, without its port
+function hostnameOf(hostHeader: string | undefined): string | undefined {
+  try {
+    return hostHeader ? new URL(`http://${hostHeader}`).hostname : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error('request body too large');
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -0,0 +1,353 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  Prompt,
+  PromptListChangedNotificationSchema,
+  Resource,
+  ResourceListChangedNotificationSchema,
+  ServerCapabilities,
+  Tool,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPServerInfo } from '../types.js';
+
+export type ServerListKind = 'tools' | 'resources' | 'prompts';
+
+export interface ToolCallOptions {
+  timeout?: number; // in milliseconds
+  signal?: AbortSignal;
+}
+
+const CLIENT_INFO = { name: 'chaining-mcp-server', version: '1.0.0' };
+const MAX_STDERR_LENGTH = 2000;
+
+// Upper bound on pages read from one paginated list, in case a server keeps returning cursors
+const MAX_LIST_PAGES = 100;
+
+/**
+ * Client connection to a downstream MCP server, over stdio or, for servers with a url,
+ * over Streamable HTTP or SSE
+ */
+export class MCPServerConnection {
+  private client: Client | null = null;
+  private transport: Transport | null = null;
+  private connecting: Promise<void> | null = null;
+  private stderrOutput = '';
+
+  /**
+   * Invoked when the server process exits without close() being called
+   */
+  onclose?: () => void;
+
+  /**
+   * Invoked when the server sends a tools, resources or prompts list_changed notification
+   */
+  onlistchanged?: (list: ServerListKind) => void;
+
+  constructor(private serverInfo: MCPServerInfo) {}
+
+  /**
+   * Spawn the server process, or open the remote connection, and perform the MCP initialize handshake
+   */
+  async connect(options: ToolCallOptions = {}): Promise<void> {
+    if (this.client) {
+      return;
+    }
+
+    // Concurrent callers share a single handshake
+    if (!this.connecting) {
+      this.connecting = this.openConnection(options.timeout).finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    return waitUnlessAborted(this.connecting, options.signal);
+  }
+
+  private async openConnection(timeout?: number): Promise<void> {
+    const type = this.serverInfo.type ?? (this.serverInfo.command ? 'stdio' : undefined);
+
+    let connection: { client: Client; transport: Transport };
+    try {
+      connection = type === 'stdio' ? await this.connectStdio(timeout) : await this.connectRemote(type, timeout);
+    } catch (error) {
+      throw new Error(`Failed to connect to server ${this.serverInfo.name}: ${this.describeError(error)}`, { cause: error });
+    }
+
+    const { client, transport } = connection;
+    client.onclose = () => {
+      // Only report closes we did not initiate ourselves
+      if (this.client === client) {
+        this.client = null;
+        this.transport = null;
+        this.onclose?.();
+      }
+    };
+
+    this.client = client;
+    this.transport = transport;
+  }
+
+  private async connectStdio(timeout?: number): Promise<{ client: Client; transport: Transport }> {
+    const transport = new StdioClientTransport({
+      command: this.serverInfo.command!,
+      args: this.serverInfo.args,
+      env: { ...process.env, ...this.serverInfo.env } as Record<string, string>,
+      stderr: 'pipe',
+    });
+
+    // Keep the tail of stderr so failures can report what the server said
+    transport.stderr?.on('data', (data) => {
+      this.stderrOutput = (this.stderrOutput + data.toString()).slice(-MAX_STDERR_LENGTH);
+    });
+
+    return { client: await this.connectClient(transport, timeout), transport };
+  }
+
+  /**
+   * Connect to the server's url over Streamable HTTP or SSE. Without a configured type,
+   * Streamable HTTP is tried first and a server that rejects it is connected over SSE.
+   */
+  private async connectRemote(type: 'sse' | 'http' | undefined, timeout?: number): Promise<{ client: Client; transport: Transport }> {
+    const url = new URL(this.serverInfo.url!);
+    const requestInit: RequestInit = { headers: remoteHeaders(this.serverInfo) };
+
+    if (type !== 'sse') {
+      const transport = new StreamableHTTPClientTransport(url, { requestInit });
+      try {
+        return { client: await this.connectClient(transport, timeout), transport };
+      } catch (error) {
+        // Servers that only speak SSE answer the initialize POST with 404 or 405
+        const rejected = error instanceof StreamableHTTPError && error.code !== undefined && error.code >= 400 && error.code < 500 &&
+          error.code !== 401 && error.code !== 403;
+        if (type === 'http' || !rejected) {
+          throw error;
+        }
+      }
+    }
+
+    const transport = new SSEClientTransport(url, { requestInit });
+    return { client: await this.connectClient(transport, timeout), transport };
+  }
+
+  private async connectClient(transport: Transport, timeout?: number): Promise<Client> {
+    const client = new Client(CLIENT_INFO, { capabilities: {} });
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => this.onlistchanged?.('tools'));
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => this.onlistchanged?.('resources'));
+    client.setNotificationHandler(PromptListChangedNotificationSchema, async () => this.onlistchanged?.('prompts'));
+
+    try {
+      await client.connect(transport, { timeout });
+    } catch (error) {
+      await transport.close().catch(() => undefined);
+      throw error;
+    }
+    return client;
+  }
+
+  /**
+   * Process id of the running server, if any; remote servers have none
+   */
+  getPid(): number | null {
+    return this.transport instanceof StdioClientTransport ? this.transport.pid : null;
+  }
+
+  /**
+   * Whether the initialize handshake has completed
+   */
+  isConnected(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Call a tool on the server and return its unwrapped result
+   */
+  async callTool(toolName: string, args: Record<string, any>, options: ToolCallOptions = {}): Promise<any> {
+    const client = await this.getClient(options);
+
+    let response;
+    try {
+      response = await client.callTool(
+        { name: toolName, arguments: args },
+        undefined,
+        { timeout: options.timeout, signal: options.signal }
+      );
+    } catch (error) {
+      throw new Error(`Tool ${toolName} failed on server ${this.serverInfo.name}: ${this.describeError(error)}`, { cause: error });
+    }
+
+    const result = extractToolResult(response);
+    if (response.isError) {
+      const message = typeof result === 'string' ? result : JSON.stringify(result);
+      throw new Error(`Tool ${toolName} returned an error on server ${this.serverInfo.name}: ${message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Capabilities the server announced during the handshake, once connected
+   */
+  getServerCapabilities(): ServerCapabilities | undefined {
+    return this.client?.getServerCapabilities();
+  }
+
+  /**
+   * List the tools exposed by the server, following nextCursor across pages
+   */
+  async listTools(options: ToolCallOptions = {}): Promise<Tool[]> {
+    const client = await this.getClient(options);
+    return this.listAllPages('tools', async cursor => {
+      const response = await client.listTools(cursor ? { cursor } : undefined, { timeout: options.timeout, signal: options.signal });
+      return { items: response.tools, nextCursor: response.nextCursor };
+    });
+  }
+
+  /**
+   * List the resources of the server; empty when it does not announce the resources capability
+   */
+  async listResources(options: ToolCallOptions = {}): Promise<Resource[]> {
+    const client = await this.getClient(options);
+    if (!client.getServerCapabilities()?.resources) {
+      return [];
+    }
+    return this.listAllPages('resources', async cursor => {
+      const response = await client.listResources(cursor ? { cursor } : undefined, { timeout: options.timeout, signal: options.signal });
+      return { items: response.resources, nextCursor: response.nextCursor };
+    });
+  }
+
+  /**
+   * List the prompts of the server; empty when it does not announce the prompts capability
+   */
+  async listPrompts(options: ToolCallOptions = {}): Promise<Prompt[]> {
+    const client = await this.getClient(options);
+    if (!client.getServerCapabilities()?.prompts) {
+      return [];
+    }
+    return this.listAllPages('prompts', async cursor => {
+      const response = await client.listPrompts(cursor ? { cursor } : undefined, { timeout: options.timeout, signal: options.signal });
+      return { items: response.prompts, nextCursor: response.nextCursor };
+    });
+  }
+
+  private async listAllPages<T>(
+    what: string,
+    fetchPage: (cursor?: string) => Promise<{ items: T[]; nextCursor?: string }>
+  ): Promise<T[]> {
+    const items: T[] = [];
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
+
+    try {
+      for (let page = 0; page < MAX_LIST_PAGES; page++) {
+        const response = await fetchPage(cursor);
+        items.push(...response.items);
+        cursor = response.nextCursor;
+        if (!cursor || seenCursors.has(cursor)) {
+          return items;
+        }
+        seenCursors.add(cursor);
+      }
+    } catch (error) {
+      throw new Error(`Failed to list ${what} on server ${this.serverInfo.name}: ${this.describeError(error)}`, { cause: error });
+    }
+
+    console.error(`Stopped listing ${what} on server ${this.serverInfo.name} after ${MAX_LIST_PAGES} pages`);
+    return items;
+  }
+
+  /**
+   * Close the connection and terminate the server process, if it was spawned
+   */
+  async close(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.transport = null;
+
+    if (client) {
+      await client.close().catch(() => undefined);
+    }
+  }
+
+  private async getClient(options: ToolCallOptions): Promise<Client> {
+    await this.connect(options);
+    if (!this.client) {
+      throw new Error(`Server ${this.serverInfo.name} closed the connection: ${this.describeError('process exited')}`);
+    }
+    return this.client;
+  }
+
+  private describeError(error: unknown): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const stderr = this.stderrOutput.trim();
+    return stderr ? `${message} (stderr: ${stderr})` : message;
+  }
+}
+
+/**
+ * Headers sent to a remote server: the configured ones, plus an Authorization header from `auth`
+ */
+function remoteHeaders(serverInfo: MCPServerInfo): Record<string, string> {
+  const headers = { ...serverInfo.headers };
+  if (serverInfo.auth?.type === 'bearer') {
+    headers.Authorization = `Bearer ${serverInfo.auth.token}`;
+  } else if (serverInfo.auth?.type === 'basic') {
+    headers.Authorization = `Basic ${Buffer.from(`${serverInfo.auth.username}:${serverInfo.auth.password}`).toString('base64')}`;
+  }
+  return headers;
+}
+
+/**
+ * Stop waiting for a shared operation when the caller's signal aborts,
+ * without aborting the operation for everyone else
+ */
+function waitUnlessAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Unwrap a tools/call result into a plain value.
+ * Structured content wins; otherwise text content is parsed as JSON when possible.
+ */
+export function extractToolResult(response: any): any {
+  if (response?.structuredContent !== undefined) {
+    return response.structuredContent;
+  }
+
+  // Legacy servers may answer with a bare toolResult
+  if (response?.toolResult !== undefined) {
+    return response.toolResult;
+  }
+
+  const content: any[] = Array.isArray(response?.content) ? response.content : [];
+  const texts = content.filter(item => item.type === 'text').map(item => item.text as string);
+
+  if (texts.length === 1 && content.length === 1) {
+    try {
+      return JSON.parse(texts[0]);
+    } catch {
+      return texts[0];
+    }
+  }
+
+  if (texts.length === content.length && texts.length > 0) {
+    return texts.join('\n');
+  }
+
+  return content;
+}
@@ -1,9 +1,32 @@
-import { ToolInfo, RouteSuggestion, OptimizationCriteria, SequentialThinkingRequest } from '../types.js';
+import { createHash } from 'crypto';
+import { ToolInfo, RouteSuggestion, OptimizationCriteria, SequentialThinkingRequest, SubmitRouteFeedbackInput } from '../types.js';
+import { ToolStatsManager } from '../managers/tool-stats.js';
+import { OptimizerStateStorage } from '../storage/optimizer-state-storage.js';
+import { bindChain, composeChains } from './schema-composer.js';
+
+// Bump when the shape of OptimizerState changes; older saved state is then discarded
+const OPTIMIZER_STATE_VERSION = 1;
+
+// Executed routes kept in the success history
+const MAX_SUCCESS_HISTORY = 200;
+
+// Suggested routes remembered for feedback, also across restarts; older route ids can no longer be rated
+const MAX_SUGGESTED_ROUTES = 500;
+
+// Feedback entries kept in the optimizer state
+const MAX_FEEDBACK_HISTORY = 200;
+
+// Score of each feedback outcome, on the same 0-1 scale as success rates
+const OUTCOME_SCORES: Record<RouteFeedback['outcome'], number> = { success: 1, partial: 0.5, failure: 0 };
 
 export class SmartRouteOptimizer {
   private tools: Map<string, ToolInfo> = new Map();
+  private discoveredTools: ToolInfo[] = [];
+  private statsRevision = -1;
   private patternMemory: Map<string, PatternData> = new Map();
   private successHistory: SuccessRecord[] = [];
+  private suggestedRoutes: Map<string, SuggestedRoute> = new Map();
+  private feedbackHistory: RouteFeedbackRecord[] = [];
   private adaptiveWeights: AdaptiveWeights = {
     speed: 0.3,
     simplicity: 0.3,
@@ -12,7 +35,11 @@ export class SmartRouteOptimizer {
     innovation: 0.1,
   };
 
-  constructor(tools: ToolInfo[] = []) {
+  constructor(
+    tools: ToolInfo[] = [],
+    private toolStats?: ToolStatsManager,
+    private stateStorage?: OptimizerStateStorage<OptimizerState>
+  ) {
     this.setTools(tools);
     this.initializePatternRecognition();
   }
@@ -21,14 +48,274 @@ export class SmartRouteOptimizer {
    * Set the available tools for optimization with intelligent analysis
    */
   setTools(tools: ToolInfo[]): void {
+    this.discoveredTools = tools;
+    this.statsRevision = this.toolStats?.getRevision() ?? -1;
     this.tools.clear();
     for (const tool of tools) {
-      this.tools.set(tool.name, tool);
+      // Measured latencies replace the heuristic estimates once a tool has enough calls
+      this.tools.set(tool.name, this.toolStats ? this.toolStats.applyMeasurements(tool) : tool);
     }
-    this.analyzeToolPatterns();
+    this.reanalyzeToolPatterns();
+  }
+
+  /**
+   * Restore the learned state saved by earlier sessions. When the tool set changed since,
+   * routes learned for tools that are no longer available are dropped and the rest is kept;
+   * state saved in another format version is discarded.
+   */
+  async loadState(): Promise<void> {
+    if (!this.stateStorage) {
+      return;
+    }
+
+    let state: OptimizerState | null;
+    try {
+      state = await this.stateStorage.load();
+    } catch (error) {
+      console.error('Failed to load optimizer state:', error instanceof Error ? error.message : error);
+      return;
+    }
+    if (!state) {
+      return;
+    }
+    if (state.version !== OPTIMIZER_STATE_VERSION) {
+      console.error(`Discarding saved optimizer state: it has format version ${state.version}, not ${OPTIMIZER_STATE_VERSION}`);
+      return;
+    }
+
+    const sameToolSet = state.toolSetHash === this.getToolSetHash();
+    const available = (toolNames: string[]) => sameToolSet || toolNames.every(name => this.tools.has(name));
+    let dropped = 0;
+    for (const [key, pattern] of state.patternMemory) {
+      if (sameToolSet || (pattern.observations && available(pattern.pattern))) {
+        this.patternMemory.set(key, pattern);
+      } else if (pattern.observations) {
+        dropped++;
+      }
+    }
+    this.successHistory = state.successHistory;
+    this.adaptiveWeights = state.adaptiveWeights;
+    this.feedbackHistory = (state.feedback ?? []).filter(record => available(record.tools));
+    // Routes suggested since startup are newer than the saved ones
+    const suggestedRoutes = (state.suggestedRoutes ?? []).filter(route => available(route.tools));
+    this.suggestedRoutes = new Map([...suggestedRoutes.map(route => [route.id, route] as const), ...this.suggestedRoutes]);
+    this.trimSuggestedRoutes();
+    // Heuristic patterns of tools whose estimates changed are recomputed
+    this.setTools(this.discoveredTools);
+    console.error(`Loaded optimizer state saved at ${state.savedAt} (${state.successHistory.length} executed routes)` +
+      (dropped > 0 ? `; dropped ${dropped} learned routes using tools that are no longer available` : ''));
+  }
+
+  /**
+   * Learn from a route that was executed: its success rate and duration update the pattern
+   * for its tool sequence, the success history and the adaptive weights
+   */
+  async recordRouteOutcome(
+    strategy: string,
+    toolNames: string[],
+    outcome: { successRate: number; duration?: number }
+  ): Promise<void> {
+    this.learnRouteOutcome(strategy, toolNames, outcome);
+    await this.saveState();
+  }
+
+  /**
+   * Learn from feedback on a suggested route. The outcome and rating update the pattern of
+   * the route's tool sequence like an executed route; a route that took much longer than
+   * estimated shifts weight to speed, and a poorly rated complex route to simplicity.
+   */
+  async submitRouteFeedback(routeId: string, feedback: RouteFeedback): Promise<RouteFeedbackRecord> {
+    const route = this.suggestedRoutes.get(routeId);
+    if (!route) {
+      throw new Error(`Route '${routeId}' not found: feedback is accepted for the ${MAX_SUGGESTED_ROUTES} most recently suggested routes`);
+    }
+
+    const toolNames = route.tools;
+    const outcomeScore = OUTCOME_SCORES[feedback.outcome];
+    const score = feedback.rating !== undefined ? (outcomeScore + (feedback.rating - 1) / 4) / 2 : outcomeScore;
+    const durations = Object.values(feedback.toolDurations ?? {});
+    const duration = feedback.actualDuration ?? (durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) : undefined);
+
+    this.learnRouteOutcome(route.strategy, toolNames, { successRate: score, duration });
+
+    if (duration !== undefined && duration > route.estimatedDuration * 1.5) {
+      this.adaptiveWeights.speed += 0.05;
+    }
+    if (feedback.rating !== undefined && feedback.rating <= 2 && route.complexity > 5) {
+      this.adaptiveWeights.simplicity += 0.05;
+    }
+    this.normalizeAdaptiveWeights();
+
+    const record: RouteFeedbackRecord = {
+      routeId,
+      strategy: route.strategy,
+      tools: toolNames,
+      outcome: feedback.outcome,
+      rating: feedback.rating,
+      score,
+      estimatedDuration: route.estimatedDuration,
+      actualDuration: duration,
+      toolDurations: feedback.toolDurations,
+      submittedAt: new Date().toISOString(),
+    };
+    this.feedbackHistory.push(record);
+    this.feedbackHistory.splice(0, Math.max(0, this.feedbackHistory.length - MAX_FEEDBACK_HISTORY));
+
+    await this.saveState();
+    return record;
+  }
+
+  /**
+   * Summary of what the optimizer has learned from feedback and executed routes
+   */
+  getLearningSummary() {
+    const outcomes = { success: 0, partial: 0, failure: 0 };
+    const strategies: Record<string, { feedback: number; averageScore: number }> = {};
+    for (const record of this.feedbackHistory) {
+      outcomes[record.outcome]++;
+      const entry = strategies[record.strategy] ?? { feedback: 0, averageScore: 0 };
+      entry.feedback++;
+      entry.averageScore += (record.score - entry.averageScore) / entry.feedback;
+      strategies[record.strategy] = entry;
+    }
+    const ratings = this.feedbackHistory.map(record => record.rating).filter((rating): rating is number => rating !== undefined);
+
+    return {
+      feedback: {
+        total: this.feedbackHistory.length,
+        outcomes,
+        averageRating: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+        strategies,
+        recent: this.feedbackHistory.slice(-10).reverse(),
+      },
+      learnedRoutes: Array.from(this.patternMemory.values())
+        .filter(pattern => pattern.observations)
+        .sort((a, b) => b.successRate - a.successRate)
+        .map(pattern => ({
+          tools: pattern.pattern,
+          successRate: pattern.successRate,
+          avgDuration: pattern.avgDuration,
+          observations: pattern.observations,
+        })),
+      executedRoutes: this.successHistory.length,
+      adaptiveWeights: { ...this.adaptiveWeights },
+      suggestedRoutesTracked: this.suggestedRoutes.size,
+    };
+  }
+
+  private learnRouteOutcome(
+    strategy: string,
+    toolNames: string[],
+    outcome: { successRate: number; duration?: number }
+  ): void {
+    const key = `executed:${toolNames.join('>')}`;
+    const previous = this.patternMemory.get(key);
+    const observations = (previous?.observations ?? 0) + 1;
+    // Running averages over every execution of this sequence
+    const average = (current: number | undefined, value: number) =>
+      current === undefined ? value : current + (value - current) / observations;
+
+    const tools = toolNames.map(name => this.tools.get(name)).filter((tool): tool is ToolInfo => tool !== undefined);
+    this.patternMemory.set(key, {
+      pattern: toolNames,
+      successRate: average(previous?.successRate, outcome.successRate),
+      avgDuration: outcome.duration !== undefined ? average(previous?.avgDuration, outcome.duration) : previous?.avgDuration ?? 0,
+      complexity: tools.length > 0
+        ? tools.reduce((sum, tool) => sum + (tool.estimatedComplexity || 1), 0) / tools.length
+        : previous?.complexity ?? 3,
+      contexts: ['executed_route'],
+      observations,
+    });
+
+    this.successHistory.push({ successRate: outcome.successRate, timestamp: Date.now(), strategy });
+    this.successHistory.splice(0, Math.max(0, this.successHistory.length - MAX_SUCCESS_HISTORY));
     this.updateAdaptiveWeights();
   }
 
+  private async saveState(): Promise<void> {
+    if (!this.stateStorage) {
+      return;
+    }
+    try {
+      await this.stateStorage.save({
+        version: OPTIMIZER_STATE_VERSION,
+        toolSetHash: this.getToolSetHash(),
+        savedAt: new Date().toISOString(),
+        patternMemory: Array.from(this.patternMemory.entries()),
+        successHistory: this.successHistory,
+        adaptiveWeights: this.adaptiveWeights,
+        feedback: this.feedbackHistory,
+        suggestedRoutes: Array.from(this.suggestedRoutes.values()),
+      });
+    } catch (error) {
+      console.error('Failed to save optimizer state:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Keeps the most recently suggested routes
+  private trimSuggestedRoutes(): void {
+    for (const routeId of Array.from(this.suggestedRoutes.keys()).slice(0, Math.max(0, this.suggestedRoutes.size - MAX_SUGGESTED_ROUTES))) {
+      this.suggestedRoutes.delete(routeId);
+    }
+  }
+
+  // Identifies the tool set the state was learned for
+  private getToolSetHash(): string {
+    const toolIds = this.discoveredTools.map(tool => `${tool.serverName}/${tool.name}`).sort();
+    return createHash('sha256').update(JSON.stringify(toolIds)).digest('hex');
+  }
+
+  /**
+   * Re-apply the tool stats of the tools called since the last refresh; the heuristic
+   * patterns are only recomputed when an estimate actually changed
+   */
+  private refreshMeasurements(): void {
+    if (!this.toolStats || this.toolStats.getRevision() === this.statsRevision) {
+      return;
+    }
+    const changed = new Set(this.toolStats.getChangedTools(this.statsRevision).map(({ serverName, toolName }) => `${serverName}/${toolName}`));
+    this.statsRevision = this.toolStats.getRevision();
+
+    let estimatesChanged = false;
+    for (const tool of this.discoveredTools) {
+      const current = this.tools.get(tool.name);
+      // A tool shadowed by another server's tool of the same name is not used
+      if (!changed.has(`${tool.serverName}/${tool.name}`) || current?.serverName !== tool.serverName) {
+        continue;
+      }
+      const measured = this.toolStats.applyMeasurements(tool);
+      if (measured.estimatedDuration !== current.estimatedDuration) {
+        this.tools.set(tool.name, measured);
+        estimatesChanged = true;
+      }
+    }
+    if (estimatesChanged) {
+      this.reanalyzeToolPatterns();
+    }
+  }
+
+  /**
+   * Recompute the heuristic patterns from the current tools; patterns learned from executed
+   * routes outlive them
+   */
+  private reanalyzeToolPatterns(): void {
+    const learnedPatterns = Array.from(this.patternMemory.entries()).filter(([, pattern]) => pattern.observations);
+    this.analyzeToolPatterns();
+    for (const [key, pattern] of learnedPatterns) {
+      this.patternMemory.set(key, pattern);
+    }
+  }
+
+  /**
+   * Average measured failure rate of the tools, or undefined when none has enough calls
+   */
+  private measuredFailureRate(tools: ToolInfo[]): number | undefined {
+    const rates = tools
+      .map(tool => this.toolStats?.getStats(tool.serverName, tool.name)?.failureRate)
+      .filter((rate): rate is number => rate !== undefined);
+    return rates.length > 0 ? rates.reduce((sum, rate) => sum + rate, 0) / rates.length : undefined;
+  }
+
   /**
    * Initialize pattern recognition system
    */
@@ -192,8 +479,11 @@ export class SmartRouteOptimizer {
       this.adaptiveWeights.speed += 0.05;
       this.adaptiveWeights.simplicity += 0.05;
     }
-    
-    // Normalize weights
+
+    this.normalizeAdaptiveWeights();
+  }
+
+  private normalizeAdaptiveWeights(): void {
     const total = Object.values(this.adaptiveWeights).reduce((sum, w) => sum + w, 0);
     for (const key in this.adaptiveWeights) {
       this.adaptiveWeights[key as keyof AdaptiveWeights] /= total;
@@ -211,6 +501,7 @@ export class SmartRouteOptimizer {
       prioritizeReliability: false,
     }
   ): Promise<RouteSuggestion[]> {
+    this.refreshMeasurements();
     const suggestions: RouteSuggestion[] = [];
 
     // Analyze the task with intelligent pattern matching
@@ -222,17 +513,35 @@ export class SmartRouteOptimizer {
     // Generate intelligent strategies based on patterns
     const strategies = this.generateIntelligentStrategies(taskAnalysis, criteria, matchingPatterns);
     
+    // Compose chains whose steps feed each other, from the tools' schemas
+    const composedStrategies = this.generateComposedStrategies(task);
+
     // Generate creative alternatives
     const creativeStrategies = this.generateCreativeStrategies(taskAnalysis, criteria);
     
     // Build routes from all strategies
-    for (const strategy of [...strategies, ...creativeStrategies]) {
+    for (const strategy of [...strategies, ...composedStrategies, ...creativeStrategies]) {
       const route = await this.buildIntelligentRoute(strategy, criteria, taskAnalysis);
       if (route) {
         suggestions.push(route);
       }
     }
 
+    // Remember the routes so feedback can refer to them by id
+    for (const route of suggestions) {
+      this.suggestedRoutes.set(route.id, {
+        id: route.id,
+        strategy: route.name,
+        tools: route.tools.map(tool => tool.name),
+        estimatedDuration: route.estimatedDuration,
+        complexity: route.complexity,
+      });
+    }
+    this.trimSuggestedRoutes();
+    if (suggestions.length > 0) {
+      await this.saveState();
+    }
+
     // Sort suggestions using adaptive weights
     return this.sortSuggestionsIntelligently(suggestions, criteria);
   }
@@ -325,6 +634,22 @@ export class SmartRouteOptimizer {
     return strategies;
   }
 
+  /**
+   * Generate strategies from chains in which each step's required inputs are satisfied
+   * by the outputs of the steps before it
+   */
+  private generateComposedStrategies(task: string): IntelligentStrategy[] {
+    return composeChains(Array.from(this.tools.values()), task).map(chain => ({
+      name: 'Schema-Composed',
+      description: `Chains tools whose outputs satisfy the next tool's inputs: ${chain.tools.map(tool => tool.name).join(' → ')}`,
+      tools: chain.tools.map(tool => tool.name),
+      priority: 2,
+      confidence: Math.min(0.6 + chain.relevance * 0.3, 0.9),
+      innovation: 0.4,
+      creativity: 0.5,
+    }));
+  }
+
   /**
    * Generate creative strategies for innovative solutions
    */
@@ -592,7 +917,7 @@ export class SmartRouteOptimizer {
     const reasoning = this.generateReasoning(strategy, tools, criteria);
 
     return {
-      id: `route_${strategy.name.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`,
+      id: `route_${strategy.name.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
       name: strategy.name,
       description: strategy.description,
       tools,
@@ -600,6 +925,7 @@ export class SmartRouteOptimizer {
       complexity: Math.min(totalComplexity / tools.length, 10),
       confidence,
       reasoning,
+      ...bindChain(tools),
     };
   }
 
@@ -620,13 +946,19 @@ export class SmartRouteOptimizer {
       if (avgComplexity < 3) confidence += 0.2;
     }
 
+    const failureRate = this.measuredFailureRate(tools);
     if (criteria.prioritizeReliability) {
-      // Assume tools with lower complexity are more reliable
-      const avgComplexity = tools.reduce((sum, tool) => sum + (tool.estimatedComplexity || 1), 0) / tools.length;
-      if (avgComplexity < 4) confidence += 0.2;
+      if (failureRate !== undefined) {
+        if (failureRate < 0.1) confidence += 0.2;
+      } else {
+        // Without measurements, assume tools with lower complexity are more reliable
+        const avgComplexity = tools.reduce((sum, tool) => sum + (tool.estimatedComplexity || 1), 0) / tools.length;
+        if (avgComplexity < 4) confidence += 0.2;
+      }
     }
 
-    return Math.min(confidence, 1.0);
+    // Tools that are seen failing lower the confidence in the route
+    return Math.min(confidence * (1 - (failureRate ?? 0)), 1.0);
   }
 
   /**
@@ -784,6 +1116,11 @@ export class SmartRouteOptimizer {
     // Check complexity matching
     const complexityDiff = Math.abs(pattern.complexity - analysis.intelligentComplexity);
     relevance += (1 - complexityDiff / 10) * 0.3;
+
+    // Routes that were executed count by how well they did
+    if (pattern.observations) {
+      relevance += (pattern.successRate - 0.5) * 0.4;
+    }
     
     return Math.min(relevance, 1.0);
   }
@@ -907,7 +1244,7 @@ export class SmartRouteOptimizer {
     const reasoning = this.generateIntelligentReasoning(strategy, tools, criteria, analysis);
 
     return {
-      id: `intelligent_${strategy.name.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`,
+      id: `intelligent_${strategy.name.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
       name: strategy.name,
       description: strategy.description,
       tools,
@@ -915,6 +1252,7 @@ export class SmartRouteOptimizer {
       complexity: Math.min(totalComplexity / tools.length, 10),
       confidence,
       reasoning,
+      ...bindChain(tools),
     };
   }
 
@@ -943,6 +1281,12 @@ export class SmartRouteOptimizer {
     if (analysis.creativityPotential > 0.7 && strategy.creativity > 0.5) {
       confidence += 0.15;
     }
+
+    // Tools that are seen failing lower the confidence in the route
+    const failureRate = this.measuredFailureRate(tools);
+    if (failureRate !== undefined) {
+      confidence *= 1 - failureRate;
+    }
     
     return Math.min(confidence, 1.0);
   }
@@ -1026,6 +1370,7 @@ export class SmartRouteOptimizer {
     routeRecommendations: RouteSuggestion[];
     optimizationSuggestions: string[];
   } {
+    this.refreshMeasurements();
     const tools = Array.from(this.tools.values());
     const totalTools = tools.length;
 
@@ -1208,6 +1553,7 @@ interface PatternData {
   complexity: number;
   contexts: string[];
   relevance?: number;
+  observations?: number; // executed routes this pattern was learned from
 }
 
 interface SuccessRecord {
@@ -1216,6 +1562,37 @@ interface SuccessRecord {
   strategy: string;
 }
 
+export interface OptimizerState {
+  version: number;
+  toolSetHash: string;
+  savedAt: string;
+  patternMemory: [string, PatternData][];
+  successHistory: SuccessRecord[];
+  adaptiveWeights: AdaptiveWeights;
+  feedback?: RouteFeedbackRecord[]; // absent in state saved before feedback was supported
+  suggestedRoutes?: SuggestedRoute[]; // absent in state saved before suggested routes were kept
+}
+
+// What feedback needs of a suggested route
+interface SuggestedRoute {
+  id: string;
+  strategy: string;
+  tools: string[];
+  estimatedDuration: number;
+  complexity: number;
+}
+
+export type RouteFeedback = Omit<SubmitRouteFeedbackInput, 'routeId'>;
+
+export interface RouteFeedbackRecord extends RouteFeedback {
+  routeId: string;
+  strategy: string;
+  tools: string[];
+  score: number; // outcome and rating combined, 0-1
+  estimatedDuration: number;
+  submittedAt: string;
+}
+
 interface AdaptiveWeights {
   speed: number;
   simplicity: number;
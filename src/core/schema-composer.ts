@@ -0,0 +1,257 @@
+import { ParameterBinding, RouteSuggestion, ToolInfo } from '../types.js';
+
+export type ComposableTool = Pick<ToolInfo, 'name'> & Partial<ToolInfo>;
+
+export type UnboundInput = NonNullable<RouteSuggestion['unboundInputs']>[number];
+
+export interface ToolField {
+  name: string;
+  type?: string;
+  description?: string;
+  required?: boolean;
+  hasDefault?: boolean;
+  inferred?: boolean; // read from the tool description rather than its schema
+}
+
+export interface ToolIO {
+  consumes: ToolField[];
+  produces: ToolField[];
+}
+
+export interface ComposedChain {
+  tools: ToolInfo[];
+  bindings: ParameterBinding[];
+  inputs: UnboundInput[]; // required inputs of the first step, which the caller supplies
+  relevance: number; // share of the task's words the chain's tools mention, averaged over the steps
+}
+
+export interface ComposeOptions {
+  maxLength?: number;
+  maxChains?: number;
+}
+
+// Words that name the same kind of value
+const ALIAS_GROUPS = [
+  ['path', 'file', 'filepath', 'filename'],
+  ['content', 'text', 'body', 'data'],
+  ['url', 'uri', 'link', 'href'],
+  ['query', 'search', 'term'],
+  ['id', 'identifier', 'key'],
+  ['result', 'output'],
+  ['directory', 'dir', 'folder'],
+];
+
+// Words a description may return that say nothing about the value
+const GENERIC_OUTPUTS = new Set(['object', 'value', 'response', 'information', 'info', 'json', 'array', 'list', 'string', 'it', 'them', 'true', 'false', 'nothing', 'whether']);
+
+// Words that precede what a description says is returned
+const LEADING_WORDS = new Set(['list', 'array', 'set', 'json', 'all', 'any', 'one', 'more']);
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'into', 'that', 'this', 'of', 'to', 'in', 'on', 'a', 'an', 'by', 'or', 'as', 'its']);
+
+// "Returns the file content", "Generates a summary of ..."
+const RETURNS_PATTERN = /\b(?:returns?|produces?|outputs?|generates?|yields?)\s+((?:[a-z][\w-]*\s*){1,5})/gi;
+
+const MATCH_RANK: Record<ParameterBinding['match'], number> = { name: 3, alias: 2, description: 1 };
+
+// Seed tools a chain may start from
+const MAX_SEEDS = 5;
+
+/**
+ * What a tool consumes, from its inputSchema, and produces, from its outputSchema or,
+ * when it declares none, from what its description says it returns
+ */
+export function inferToolIO(tool: ComposableTool): ToolIO {
+  const inputProperties: Record<string, any> = tool.inputSchema?.properties ?? {};
+  const required: string[] = Array.isArray(tool.inputSchema?.required) ? tool.inputSchema!.required : [];
+  const consumes = Object.entries(inputProperties).map(([name, schema]) => ({
+    name,
+    type: schema?.type,
+    description: schema?.description,
+    required: required.includes(name),
+    hasDefault: schema?.default !== undefined,
+  }));
+  // Required inputs without a declared property
+  required.filter(name => !inputProperties[name]).forEach(name => consumes.push({ name, type: undefined, description: undefined, required: true, hasDefault: false }));
+
+  const outputProperties: Record<string, any> | undefined = tool.outputSchema?.properties;
+  const produces: ToolField[] = outputProperties
+    ? Object.entries(outputProperties).map(([name, schema]) => ({ name, type: schema?.type, description: schema?.description }))
+    : describedOutputs(tool.description ?? '');
+
+  return { consumes, produces };
+}
+
+/**
+ * Bind each input of each step to an output of an earlier step. Declared outputs win over
+ * inferred ones, then name matches over aliases and descriptions, then the most recent step.
+ */
+export function bindChain(tools: ComposableTool[]): { bindings: ParameterBinding[]; unboundInputs: UnboundInput[] } {
+  const ios = tools.map(inferToolIO);
+  const bindings: ParameterBinding[] = [];
+  const unboundInputs: UnboundInput[] = [];
+
+  tools.forEach((tool, toStep) => {
+    for (const input of ios[toStep].consumes) {
+      let best: { binding: ParameterBinding; rank: number } | undefined;
+      for (let fromStep = toStep - 1; fromStep >= 0; fromStep--) {
+        for (const output of ios[fromStep].produces) {
+          const match = matchField(output, input);
+          const rank = match ? (output.inferred ? 0 : 10) + MATCH_RANK[match] : 0;
+          if (match && (!best || rank > best.rank)) {
+            best = {
+              binding: {
+                fromStep,
+                fromTool: tools[fromStep].name,
+                output: output.name,
+                toStep,
+                toTool: tool.name,
+                input: input.name,
+                match,
+                inferred: output.inferred === true,
+              },
+              rank,
+            };
+          }
+        }
+      }
+
+      if (best) {
+        bindings.push(best.binding);
+      } else if (input.required && !input.hasDefault) {
+        unboundInputs.push({ step: toStep, tool: tool.name, input: input.name });
+      }
+    }
+  });
+
+  return { bindings, unboundInputs };
+}
+
+/**
+ * Compose chains for a task: each starts from a tool the task mentions, and is extended only
+ * with tools the task mentions whose required inputs without a default are all bound by name
+ * to outputs of the steps before them. As in buildWorkflowFromRoute, a binding by alias or
+ * description is too weak a signal to extend a chain with.
+ */
+export function composeChains(tools: ToolInfo[], task: string, options: ComposeOptions = {}): ComposedChain[] {
+  const maxLength = options.maxLength ?? 4;
+  const maxChains = options.maxChains ?? 3;
+  const taskWords = new Set(words(task));
+  if (taskWords.size === 0) {
+    return [];
+  }
+
+  const relevance = new Map(tools.map(tool => {
+    const toolWords = new Set([...words(tool.name), ...words(tool.description)]);
+    return [tool, [...taskWords].filter(word => toolWords.has(word)).length / taskWords.size];
+  }));
+
+  const seeds = tools.filter(tool => relevance.get(tool)! > 0)
+    .sort((a, b) => relevance.get(b)! - relevance.get(a)!)
+    .slice(0, MAX_SEEDS);
+
+  const chains = new Map<string, ComposedChain>();
+  for (const seed of seeds) {
+    const chain = [seed];
+    while (chain.length < maxLength) {
+      let next: { tool: ToolInfo; score: number } | undefined;
+      for (const candidate of tools.filter(tool => !chain.includes(tool) && relevance.get(tool)! > 0)) {
+        const named = new Set(bindChain([...chain, candidate]).bindings
+          .filter(binding => binding.toStep === chain.length && binding.match === 'name')
+          .map(binding => binding.input));
+        const required = inferToolIO(candidate).consumes.filter(input => input.required);
+        const fed = required.filter(input => named.has(input.name)).length;
+        if (fed === 0 || required.some(input => !input.hasDefault && !named.has(input.name))) {
+          continue;
+        }
+        const score = relevance.get(candidate)! + fed * 0.1;
+        if (!next || score > next.score) {
+          next = { tool: candidate, score };
+        }
+      }
+      if (!next) {
+        break;
+      }
+      chain.push(next.tool);
+    }
+
+    const key = chain.map(tool => `${tool.serverName}/${tool.name}`).join('>');
+    if (chain.length > 1 && !chains.has(key)) {
+      const { bindings, unboundInputs } = bindChain(chain);
+      chains.set(key, {
+        tools: chain,
+        bindings,
+        inputs: unboundInputs,
+        relevance: chain.reduce((sum, tool) => sum + relevance.get(tool)!, 0) / chain.length,
+      });
+    }
+  }
+
+  return [...chains.values()].sort((a, b) => b.relevance - a.relevance).slice(0, maxChains);
+}
+
+/**
+ * How an output can feed an input, or undefined when it cannot
+ */
+function matchField(output: ToolField, input: ToolField): ParameterBinding['match'] | undefined {
+  if (!typesCompatible(output.type, input.type)) {
+    return undefined;
+  }
+
+  const outputWords = words(output.name);
+  const inputWords = words(input.name);
+  if (outputWords.length === 0 || inputWords.length === 0) {
+    return undefined;
+  }
+  if (outputWords.join('') === inputWords.join('')) {
+    return 'name';
+  }
+
+  // file_path and path, or content and text, name the same value
+  const outputHead = outputWords[outputWords.length - 1];
+  const inputHead = inputWords[inputWords.length - 1];
+  if (outputHead === inputHead || ALIAS_GROUPS.some(group => group.includes(outputHead) && group.includes(inputHead))) {
+    return 'alias';
+  }
+
+  if (input.description && words(input.description).includes(outputHead)) {
+    return 'description';
+  }
+  return undefined;
+}
+
+function typesCompatible(outputType: unknown, inputType: unknown): boolean {
+  if (typeof outputType !== 'string' || typeof inputType !== 'string') {
+    return true; // unknown or union types are not checked
+  }
+  const numeric = ['number', 'integer'];
+  return outputType === inputType || (numeric.includes(outputType) && numeric.includes(inputType));
+}
+
+function describedOutputs(description: string): ToolField[] {
+  const outputs = new Map<string, ToolField>();
+  for (const [, phrase] of description.matchAll(RETURNS_PATTERN)) {
+    const phraseWords = phrase.toLowerCase().split(/\s+/).filter(Boolean);
+    // "a list of files" -> files, "the file content of ..." -> file_content
+    while (phraseWords.length > 0 && (STOP_WORDS.has(phraseWords[0]) || LEADING_WORDS.has(phraseWords[0]))) {
+      phraseWords.shift();
+    }
+    const end = phraseWords.findIndex(word => STOP_WORDS.has(word));
+    const nameWords = phraseWords.slice(0, end === -1 ? undefined : end).slice(-2);
+    if (nameWords.length > 0 && !GENERIC_OUTPUTS.has(nameWords[nameWords.length - 1])) {
+      const name = nameWords.join('_');
+      outputs.set(name, { name, inferred: true });
+    }
+  }
+  return [...outputs.values()];
+}
+
+// Lowercase words of a name or text, split on camelCase and punctuation, with plurals singularized
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
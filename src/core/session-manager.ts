@@ -0,0 +1,193 @@
+import { Prompt, Resource, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServerInfo } from '../types.js';
+import { MCPServerConnection, ServerListKind, ToolCallOptions } from './mcp-client.js';
+
+export interface SessionManagerOptions {
+  idleTimeout?: number; // in milliseconds, 0 disables idle shutdown
+}
+
+export interface SessionStatus {
+  serverName: string;
+  connected: boolean;
+  pid: number | null;
+  activeRequests: number;
+  restarts: number;
+  lastUsed: string;
+}
+
+interface ServerSession {
+  serverInfo: MCPServerInfo;
+  connection: MCPServerConnection;
+  activeRequests: number;
+  restarts: number;
+  lastUsed: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Keeps one initialized client per downstream MCP server and shares it
+ * between discovery, the workflow orchestrator and proxied tool calls.
+ */
+export class ServerSessionManager {
+  private sessions = new Map<string, ServerSession>();
+  private idleTimeout: number;
+
+  /**
+   * Invoked when a running server reports that its tools, resources or prompts changed
+   */
+  onlistchanged?: (serverName: string, list: ServerListKind) => void;
+
+  constructor(options: SessionManagerOptions = {}) {
+    const envTimeout = Number(process.env.MCP_SESSION_IDLE_TIMEOUT);
+    this.idleTimeout = options.idleTimeout ?? (Number.isFinite(envTimeout) && envTimeout >= 0 ? envTimeout : DEFAULT_IDLE_TIMEOUT);
+  }
+
+  /**
+   * Call a tool on a server, starting the server if needed
+   */
+  async callTool(
+    serverInfo: MCPServerInfo,
+    toolName: string,
+    args: Record<string, any>,
+    options: ToolCallOptions = {}
+  ): Promise<any> {
+    return this.withSession(serverInfo, session => session.connection.callTool(toolName, args, options));
+  }
+
+  /**
+   * List the tools of a server, starting the server if needed
+   */
+  async listTools(serverInfo: MCPServerInfo, options: ToolCallOptions = {}): Promise<Tool[]> {
+    return this.withSession(serverInfo, session => session.connection.listTools(options));
+  }
+
+  /**
+   * List the resources of a server, starting the server if needed
+   */
+  async listResources(serverInfo: MCPServerInfo, options: ToolCallOptions = {}): Promise<Resource[]> {
+    return this.withSession(serverInfo, session => session.connection.listResources(options));
+  }
+
+  /**
+   * List the prompts of a server, starting the server if needed
+   */
+  async listPrompts(serverInfo: MCPServerInfo, options: ToolCallOptions = {}): Promise<Prompt[]> {
+    return this.withSession(serverInfo, session => session.connection.listPrompts(options));
+  }
+
+  /**
+   * Get the connection for a server, creating the session if needed
+   */
+  getConnection(serverInfo: MCPServerInfo): MCPServerConnection {
+    return this.getSession(serverInfo).connection;
+  }
+
+  /**
+   * Close the session for a single server
+   */
+  async closeSession(serverName: string): Promise<void> {
+    const session = this.sessions.get(serverName);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(serverName);
+    clearTimeout(session.idleTimer);
+    await session.connection.close();
+  }
+
+  /**
+   * Shut down every running server
+   */
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.keys()).map(name => this.closeSession(name)));
+  }
+
+  /**
+   * Get the status of all known sessions
+   */
+  getSessionStatus(): SessionStatus[] {
+    return Array.from(this.sessions.values()).map(session => ({
+      serverName: session.serverInfo.name,
+      connected: session.connection.isConnected(),
+      pid: session.connection.getPid(),
+      activeRequests: session.activeRequests,
+      restarts: session.restarts,
+      lastUsed: new Date(session.lastUsed).toISOString(),
+    }));
+  }
+
+  private async withSession<T>(serverInfo: MCPServerInfo, operation: (session: ServerSession) => Promise<T>): Promise<T> {
+    const session = this.getSession(serverInfo);
+
+    clearTimeout(session.idleTimer);
+    session.activeRequests++;
+    session.lastUsed = Date.now();
+
+    try {
+      return await operation(session);
+    } finally {
+      session.activeRequests--;
+      session.lastUsed = Date.now();
+      this.scheduleIdleShutdown(session);
+    }
+  }
+
+  private getSession(serverInfo: MCPServerInfo): ServerSession {
+    const existing = this.sessions.get(serverInfo.name);
+
+    // A changed configuration invalidates the running process or remote connection
+    if (existing && !this.isSameServer(existing.serverInfo, serverInfo)) {
+      this.sessions.delete(serverInfo.name);
+      clearTimeout(existing.idleTimer);
+      existing.connection.close().catch(() => undefined);
+    } else if (existing) {
+      return existing;
+    }
+
+    const session: ServerSession = {
+      serverInfo,
+      connection: new MCPServerConnection(serverInfo),
+      activeRequests: 0,
+      restarts: existing?.restarts ?? 0,
+      lastUsed: Date.now(),
+    };
+
+    session.connection.onlistchanged = list => this.onlistchanged?.(serverInfo.name, list);
+
+    // A crashed server is respawned transparently on its next request
+    session.connection.onclose = () => {
+      session.restarts++;
+      console.error(`MCP server ${serverInfo.name} exited unexpectedly; it will be restarted on next use`);
+    };
+
+    this.sessions.set(serverInfo.name, session);
+    return session;
+  }
+
+  private scheduleIdleShutdown(session: ServerSession): void {
+    if (this.idleTimeout <= 0 || session.activeRequests > 0) {
+      return;
+    }
+
+    clearTimeout(session.idleTimer);
+    session.idleTimer = setTimeout(() => {
+      if (this.sessions.get(session.serverInfo.name) === session && session.activeRequests === 0) {
+        this.closeSession(session.serverInfo.name).catch(() => undefined);
+      }
+    }, this.idleTimeout);
+    session.idleTimer.unref();
+  }
+
+  private isSameServer(a: MCPServerInfo, b: MCPServerInfo): boolean {
+    return a.type === b.type &&
+      a.command === b.command &&
+      JSON.stringify(a.args) === JSON.stringify(b.args) &&
+      JSON.stringify(a.env || {}) === JSON.stringify(b.env || {}) &&
+      a.url === b.url &&
+      JSON.stringify(a.headers || {}) === JSON.stringify(b.headers || {}) &&
+      JSON.stringify(a.auth || null) === JSON.stringify(b.auth || null);
+  }
+}
@@ -1,5 +1,5 @@
-import { spawn } from 'child_process';
 import { MCPServerDiscovery } from '../core/discovery.js';
+import { ServerSessionManager } from '../core/session-manager.js';
 import { SmartRouteOptimizer } from '../core/optimizer.js';
 import { SequentialThinkingIntegration } from '../integrations/sequential-integration.js';
 import { SequentialThinkingManager } from '../managers/sequential-thinking-manager.js';
@@ -7,7 +7,35 @@ import { TimeManager } from '../managers/time-manager.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
 import { AwesomeCopilotIntegration } from '../integrations/awesome-copilot-integration.js';
 import { BrainstormingManager } from '../managers/brainstorming-manager.js';
-import { WorkflowOrchestrator } from '../managers/workflow-orchestrator.js';
+import { WorkflowOrchestrator, WorkflowExecutionResult, WorkflowRunOptions, countFinishedSteps } from '../managers/workflow-orchestrator.js';
+import { KnowledgeGraphManager } from '../managers/memory-manager.js';
+import { ReliabilityManager } from '../managers/reliability-manager.js';
+import { WorkflowLibrary, applyWorkflowOverrides } from '../managers/workflow-library.js';
+import { WorkflowHistoryManager } from '../managers/workflow-history.js';
+import { buildWorkflowFromRoute } from '../managers/route-workflow-builder.js';
+import { ToolStatsManager } from '../managers/tool-stats.js';
+import {
+  CreateEntitiesSchema,
+  CreateRelationsSchema,
+  AddObservationsSchema,
+  DeleteEntitiesSchema,
+  DeleteObservationsSchema,
+  DeleteRelationsSchema,
+  SearchNodesSchema,
+  OpenNodesSchema,
+  QueryWorkflowHistorySchema,
+  RouteToWorkflowSchema,
+  SubmitRouteFeedbackSchema,
+  WorkflowOrchestratorSchema,
+} from '../types.js';
+
+/**
+ * Per-request facilities of the MCP call being handled
+ */
+export interface ToolCallContext {
+  // Present when the client asked for progress notifications
+  sendProgress?: (progress: number, total: number, message: string) => Promise<void>;
+}
 
 export class RequestHandlers {
   constructor(
@@ -19,14 +47,20 @@ export class RequestHandlers {
     private promptRegistry: PromptRegistry,
     private awesomeCopilotIntegration: AwesomeCopilotIntegration,
     private brainstormingManager: BrainstormingManager,
-    private workflowOrchestrator: WorkflowOrchestrator
+    private workflowOrchestrator: WorkflowOrchestrator,
+    private sessions: ServerSessionManager,
+    private knowledgeGraphManager: KnowledgeGraphManager,
+    private reliabilityManager: ReliabilityManager,
+    private workflowLibrary: WorkflowLibrary,
+    private workflowHistory: WorkflowHistoryManager,
+    private toolStats: ToolStatsManager
   ) {}
 
-  async handleToolCall(name: string, args: any): Promise<any> {
+  async handleToolCall(name: string, args: any, context: ToolCallContext = {}): Promise<any> {
     try {
       // Core Chaining Tools
-      if (['list_mcp_servers', 'analyze_tools', 'generate_route_suggestions', 'analyze_with_sequential_thinking', 'get_tool_chain_analysis', 'sequentialthinking'].includes(name)) {
-        return await this.handleCoreChainingTool(name, args);
+      if (['list_mcp_servers', 'refresh_discovery', 'analyze_tools', 'generate_route_suggestions', 'route_to_workflow', 'submit_route_feedback', 'analyze_with_sequential_thinking', 'get_tool_chain_analysis', 'sequentialthinking'].includes(name)) {
+        return await this.handleCoreChainingTool(name, args, context);
       }
 
       // Route Awesome Copilot Tools to discovered server
@@ -36,7 +70,7 @@ export class RequestHandlers {
 
       // Sequential Thinking Tools
       if (['brainstorming', 'workflow_orchestrator'].includes(name)) {
-        return await this.handleSequentialThinkingTool(name, args);
+        return await this.handleSequentialThinkingTool(name, args, context);
       }
 
       // Time Management Tools
@@ -54,24 +88,66 @@ export class RequestHandlers {
         return await this.handleValidationAnalysisTool(name, args);
       }
 
+      // Memory Tools
+      if (['create_entities', 'create_relations', 'add_observations', 'delete_entities', 'delete_observations', 'delete_relations', 'read_graph', 'search_nodes', 'open_nodes'].includes(name)) {
+        return await this.handleMemoryTool(name, args);
+      }
+
+      // Reliability Tools
+      if (['get_server_health', 'get_reliability_metrics'].includes(name)) {
+        return await this.handleReliabilityTool(name, args);
+      }
+
+      // Workflow Run Tools
+      if (['start_workflow', 'get_workflow_status', 'cancel_workflow', 'list_workflow_runs', 'query_workflow_history', 'resume_workflow'].includes(name)) {
+        return await this.handleWorkflowRunTool(name, args, context);
+      }
+
+      // Workflow Library Tools
+      if (['save_workflow', 'list_workflows', 'get_workflow', 'run_saved_workflow'].includes(name)) {
+        return await this.handleWorkflowLibraryTool(name, args, context);
+      }
+
       throw new Error(`Unknown tool: ${name}`);
     } catch (error) {
-      throw new Error(`Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  private async handleCoreChainingTool(name: string, args: any): Promise<any> {
+  private async handleCoreChainingTool(name: string, args: any, context: ToolCallContext): Promise<any> {
     switch (name) {
       case 'list_mcp_servers':
         const servers = this.discovery.getServers();
+        const serverStatuses = servers.map(s => this.discovery.getServerStatus(s.name));
         return {
-          servers: servers.map(s => ({
+          servers: servers.map((s, index) => ({
             name: s.name,
+            type: s.type,
             command: s.command,
             args: s.args,
+            url: s.url,
             capabilities: s.capabilities,
+            discovery: serverStatuses[index] ?? { status: 'pending' },
           })),
           total: servers.length,
+          byStatus: {
+            ok: serverStatuses.filter(status => status?.status === 'ok').length,
+            fallback: serverStatuses.filter(status => status?.status === 'fallback').length,
+            failed: serverStatuses.filter(status => status?.status === 'failed').length,
+          },
+        };
+
+      case 'refresh_discovery':
+        const refreshStartedAt = Date.now();
+        await this.discovery.reloadConfiguration();
+        const refreshedTools = this.discovery.getTools();
+        this.optimizer.setTools(refreshedTools);
+        this.sequentialIntegration.setAvailableTools(refreshedTools);
+        return {
+          servers: this.discovery.getServers().map(s => this.discovery.getServerStatus(s.name)),
+          totalServers: this.discovery.getServers().length,
+          totalTools: refreshedTools.length,
+          duration: Date.now() - refreshStartedAt,
         };
 
       case 'analyze_tools':
@@ -98,15 +174,77 @@ export class RequestHandlers {
         const routes = await this.optimizer.generateRoutes(args.task, args.criteria || {});
         return {
           routes: routes.map(route => ({
+            id: route.id,
+            name: route.name,
             tools: route.tools,
             estimatedDuration: route.estimatedDuration,
             complexity: route.complexity,
             confidence: route.confidence,
             reasoning: route.reasoning,
+            bindings: route.bindings,
+            unboundInputs: route.unboundInputs,
           })),
           totalRoutes: routes.length,
         };
 
+      case 'route_to_workflow':
+        const routeInput = RouteToWorkflowSchema.parse(args);
+        let route = routeInput.route;
+        if (!route) {
+          const suggestedRoutes = await this.optimizer.generateRoutes(routeInput.task!, routeInput.criteria);
+          const routeIndex = routeInput.routeIndex ?? 0;
+          if (!suggestedRoutes[routeIndex]) {
+            throw new Error(`Route ${routeIndex} not found: ${suggestedRoutes.length} routes were generated for the task`);
+          }
+          route = suggestedRoutes[routeIndex];
+        }
+
+        // Prefer the discovered definitions, which carry the current input and output schemas
+        const discoveredTools = this.discovery.getTools();
+        const draft = buildWorkflowFromRoute(
+          route.tools.map(tool => discoveredTools.find(t => t.serverName === tool.serverName && t.name === tool.name) ?? tool),
+          {
+            workflowId: routeInput.workflowId,
+            name: routeInput.name ?? route.name,
+            description: route.description,
+            variables: routeInput.variables,
+          }
+        );
+
+        if (!routeInput.execute) {
+          return draft;
+        }
+        if (draft.missingVariables.length > 0) {
+          throw new Error(`Cannot execute the workflow without values for variables: ${draft.missingVariables.join(', ')}`);
+        }
+        const routeRun = await this.workflowOrchestrator.executeWorkflow(draft.workflow, this.createWorkflowRunOptions(context));
+
+        // Executed routes teach the optimizer which tool sequences work
+        if (routeRun.status !== 'cancelled') {
+          const routeSteps = routeRun.steps.filter(step => step.parentStepId === undefined);
+          await this.optimizer.recordRouteOutcome(
+            route.name ?? 'custom',
+            route.tools.map(tool => tool.name),
+            {
+              successRate: routeSteps.filter(step => step.status === 'completed').length / Math.max(1, routeSteps.length),
+              duration: routeRun.executionTime,
+            }
+          );
+        }
+
+        return {
+          ...draft,
+          run: this.formatWorkflowRun(routeRun),
+        };
+
+      case 'submit_route_feedback':
+        const { routeId, ...feedback } = SubmitRouteFeedbackSchema.parse(args);
+        const feedbackRecord = await this.optimizer.submitRouteFeedback(routeId, feedback);
+        return {
+          feedback: feedbackRecord,
+          adaptiveWeights: this.optimizer.getLearningSummary().adaptiveWeights,
+        };
+
       case 'analyze_with_sequential_thinking':
         const availableTools = this.discovery.getTools();
         const analysis = await this.sequentialIntegration.analyzeWorkflow(
@@ -165,128 +303,17 @@ export class RequestHandlers {
       };
     }
 
-    // Route the call to the awesome-copilot server by spawning it and communicating via MCP protocol
+    // Route the call through the shared session to the awesome-copilot server.
+    // Failures are thrown so the reliability layer can retry them.
+    const startedAt = Date.now();
     try {
-      const result = await this.executeAwesomeCopilotTool(awesomeCopilotServer, name, args);
+      const result = await this.sessions.callTool(awesomeCopilotServer, name, args, { timeout: 30000 });
+      this.toolStats.recordCall(awesomeCopilotServer.name, name, Date.now() - startedAt, true);
       return result;
     } catch (error) {
-      console.error(`Failed to execute awesome-copilot tool ${name}:`, error);
-      return {
-        error: 'Awesome Copilot tool execution failed',
-        message: `Failed to execute ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        tool: name,
-        args: args,
-        suggestion: 'Make sure the awesome-copilot MCP server is properly built and the GitHub token has the necessary permissions.'
-      };
-    }
-  }
-
-  private async executeAwesomeCopilotTool(serverInfo: any, toolName: string, args: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error(`Timeout executing tool ${toolName} on awesome-copilot server`));
-      }, 30000); // 30 second timeout
-
-      try {
-        const child = spawn(serverInfo.command, serverInfo.args, {
-          env: { ...process.env, ...serverInfo.env },
-          stdio: ['pipe', 'pipe', 'pipe'],
-        });
-
-        let output = '';
-        let errorOutput = '';
-
-        child.stdout?.on('data', (data) => {
-          output += data.toString();
-        });
-
-        child.stderr?.on('data', (data) => {
-          errorOutput += data.toString();
-        });
-
-        child.on('error', (error) => {
-          clearTimeout(timeout);
-          reject(new Error(`Failed to spawn awesome-copilot server: ${error.message}`));
-        });
-
-        child.on('close', (code) => {
-          clearTimeout(timeout);
-          if (code !== 0) {
-            reject(new Error(`Awesome-copilot server exited with code ${code}: ${errorOutput}`));
-            return;
-          }
-
-          try {
-            // Parse the MCP response
-            const response = this.parseAwesomeCopilotResponse(output);
-            if (response && response.result && response.result.content) {
-              // Extract the actual tool result from the MCP response
-              const content = response.result.content[0];
-              if (content && content.type === 'text') {
-                const result = JSON.parse(content.text);
-                resolve(result);
-              } else {
-                resolve(response.result);
-              }
-            } else {
-              resolve({ message: 'Tool executed successfully but no result returned' });
-            }
-          } catch (parseError) {
-            reject(new Error(`Failed to parse response from awesome-copilot server: ${parseError instanceof Error ? parseError.message : String(parseError)}`));
-          }
-        });
-
-        // Send MCP initialize request first
-        const initRequest = {
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'initialize',
-          params: {
-            protocolVersion: '2024-11-05',
-            capabilities: {},
-            clientInfo: { name: 'chaining-mcp-server', version: '1.0.0' }
-          }
-        };
-
-        child.stdin?.write(JSON.stringify(initRequest) + '\n');
-
-        // Wait a bit for initialization, then send the tool call
-        setTimeout(() => {
-          const toolRequest = {
-            jsonrpc: '2.0',
-            id: 2,
-            method: 'tools/call',
-            params: {
-              name: toolName,
-              arguments: args
-            }
-          };
-
-          child.stdin?.write(JSON.stringify(toolRequest) + '\n');
-          child.stdin?.end();
-        }, 1000);
-
-      } catch (error) {
-        clearTimeout(timeout);
-        reject(new Error(`Failed to execute tool on awesome-copilot server: ${error instanceof Error ? error.message : String(error)}`));
-      }
-    });
-  }
-
-  private parseAwesomeCopilotResponse(output: string): any {
-    const lines = output.split('\n').filter(line => line.trim());
-    for (const line of lines) {
-      try {
-        const response = JSON.parse(line);
-        if (response.id === 2 && response.result) { // Our tool call response
-          return response;
-        }
-      } catch (error) {
-        // Skip invalid JSON lines
-        continue;
-      }
+      this.toolStats.recordCall(awesomeCopilotServer.name, name, Date.now() - startedAt, false);
+      throw error;
     }
-    return null;
   }
 
   private validateToolChain(
@@ -477,7 +504,7 @@ export class RequestHandlers {
     return errors;
   }
 
-  private async handleSequentialThinkingTool(name: string, args: any): Promise<any> {
+  private async handleSequentialThinkingTool(name: string, args: any, context: ToolCallContext): Promise<any> {
     switch (name) {
       case 'brainstorming':
         const brainstormingResult = await this.brainstormingManager.generateIdeas(args);
@@ -511,29 +538,13 @@ export class RequestHandlers {
         };
 
       case 'workflow_orchestrator':
-        const workflowResult = await this.workflowOrchestrator.executeWorkflow(args);
-        return {
-          workflowId: workflowResult.workflowId,
-          status: workflowResult.status,
-          steps: workflowResult.steps.map(step => ({
-            stepId: step.stepId,
-            status: step.status,
-            serverName: step.serverName,
-            toolName: step.toolName,
-            startedAt: step.startedAt,
-            completedAt: step.completedAt,
-            executionTime: step.executionTime,
-            result: step.result,
-            error: step.error,
-            retryCount: step.retryCount,
-            dependencies: step.dependencies,
-          })),
-          overallResult: workflowResult.overallResult,
-          executionTime: workflowResult.executionTime,
-          startedAt: workflowResult.startedAt,
-          completedAt: workflowResult.completedAt,
-          error: workflowResult.error,
-        };
+        const { dryRun, ...workflowInput } = args;
+        const workflow = WorkflowOrchestratorSchema.parse(workflowInput);
+        if (dryRun) {
+          return this.workflowOrchestrator.planWorkflow(workflow);
+        }
+        const workflowResult = await this.workflowOrchestrator.executeWorkflow(workflow, this.createWorkflowRunOptions(context));
+        return this.formatWorkflowRun(workflowResult);
 
       default:
         throw new Error(`Unknown sequential thinking tool: ${name}`);
@@ -634,6 +645,291 @@ export class RequestHandlers {
     }
   }
 
+  private async handleMemoryTool(name: string, args: any): Promise<any> {
+    switch (name) {
+      case 'create_entities':
+        const { entities } = CreateEntitiesSchema.parse(args);
+        const createdEntities = await this.knowledgeGraphManager.createEntities(entities);
+        return {
+          created: createdEntities,
+          total: createdEntities.length,
+        };
+
+      case 'create_relations':
+        const { relations } = CreateRelationsSchema.parse(args);
+        const createdRelations = await this.knowledgeGraphManager.createRelations(relations);
+        return {
+          created: createdRelations,
+          total: createdRelations.length,
+        };
+
+      case 'add_observations':
+        const { observations } = AddObservationsSchema.parse(args);
+        return {
+          results: await this.knowledgeGraphManager.addObservations(observations),
+        };
+
+      case 'delete_entities':
+        const { entityNames } = DeleteEntitiesSchema.parse(args);
+        await this.knowledgeGraphManager.deleteEntities(entityNames);
+        return { success: true, message: `Deleted ${entityNames.length} entities and their relations` };
+
+      case 'delete_observations':
+        const { deletions } = DeleteObservationsSchema.parse(args);
+        await this.knowledgeGraphManager.deleteObservations(deletions);
+        return { success: true, message: 'Observations deleted successfully' };
+
+      case 'delete_relations':
+        const { relations: relationsToDelete } = DeleteRelationsSchema.parse(args);
+        await this.knowledgeGraphManager.deleteRelations(relationsToDelete);
+        return { success: true, message: `Deleted ${relationsToDelete.length} relations` };
+
+      case 'read_graph':
+        return await this.knowledgeGraphManager.readGraph();
+
+      case 'search_nodes':
+        const { query } = SearchNodesSchema.parse(args);
+        return await this.knowledgeGraphManager.searchNodes(query);
+
+      case 'open_nodes':
+        const { names } = OpenNodesSchema.parse(args);
+        return await this.knowledgeGraphManager.openNodes(names);
+
+      default:
+        throw new Error(`Unknown memory tool: ${name}`);
+    }
+  }
+
+  private async handleWorkflowRunTool(name: string, args: any, context: ToolCallContext): Promise<any> {
+    switch (name) {
+      case 'start_workflow':
+        const startedRun = this.workflowOrchestrator.startWorkflow(WorkflowOrchestratorSchema.parse(args));
+        return {
+          runId: startedRun.runId,
+          workflowId: startedRun.workflowId,
+          status: startedRun.status,
+          startedAt: startedRun.startedAt,
+          totalSteps: startedRun.totalSteps,
+        };
+
+      case 'get_workflow_status':
+        const run = await this.workflowOrchestrator.findWorkflowRun(args.runId);
+        if (!run) {
+          throw new Error(`Workflow run '${args.runId}' not found`);
+        }
+        return this.formatWorkflowRun(run);
+
+      case 'cancel_workflow':
+        const runToCancel = this.workflowOrchestrator.getWorkflowStatus(args.runId);
+        if (!runToCancel) {
+          throw new Error(`Workflow run '${args.runId}' not found`);
+        }
+        const cancelled = await this.workflowOrchestrator.cancelWorkflow(args.runId);
+        return {
+          runId: args.runId,
+          cancelled,
+          status: runToCancel.status, // final, since cancelWorkflow waits for the run to stop
+        };
+
+      case 'list_workflow_runs':
+        const runs = this.workflowOrchestrator.listWorkflowRuns(args.status);
+        return {
+          runs: runs.map(r => ({
+            runId: r.runId,
+            workflowId: r.workflowId,
+            name: r.name,
+            status: r.status,
+            progress: { finishedSteps: countFinishedSteps(r), totalSteps: r.totalSteps },
+            startedAt: r.startedAt,
+            completedAt: r.completedAt,
+            error: r.error,
+          })),
+          total: runs.length,
+        };
+
+      case 'query_workflow_history':
+        const { includeSteps, ...query } = QueryWorkflowHistorySchema.parse(args);
+        const historyRuns = await this.workflowHistory.queryRuns(query);
+        return {
+          runs: historyRuns.map(r => includeSteps ? this.formatWorkflowRun(r) : {
+            runId: r.runId,
+            workflowId: r.workflowId,
+            name: r.name,
+            status: r.status,
+            progress: { finishedSteps: countFinishedSteps(r), totalSteps: r.totalSteps },
+            executionTime: r.executionTime,
+            startedAt: r.startedAt,
+            completedAt: r.completedAt,
+            error: r.error,
+          }),
+          total: historyRuns.length,
+        };
+
+      case 'resume_workflow':
+        const { input: resumedInput, resumeFrom } = await this.workflowOrchestrator.prepareResume(args.runId, {
+          variables: args.variables,
+          parameters: args.parameters,
+        });
+
+        if (args.background) {
+          const resumedRun = this.workflowOrchestrator.startWorkflow(resumedInput, { resumeFrom });
+          return {
+            runId: resumedRun.runId,
+            workflowId: resumedRun.workflowId,
+            resumedFrom: resumedRun.resumedFrom,
+            reusedSteps: resumeFrom.steps.filter(s => s.parentStepId === undefined).map(s => s.stepId),
+            status: resumedRun.status,
+            startedAt: resumedRun.startedAt,
+            totalSteps: resumedRun.totalSteps,
+          };
+        }
+
+        const resumedResult = await this.workflowOrchestrator.executeWorkflow(resumedInput, {
+          ...this.createWorkflowRunOptions(context),
+          resumeFrom,
+        });
+        return this.formatWorkflowRun(resumedResult);
+
+      default:
+        throw new Error(`Unknown workflow run tool: ${name}`);
+    }
+  }
+
+  private async handleWorkflowLibraryTool(name: string, args: any, context: ToolCallContext): Promise<any> {
+    switch (name) {
+      case 'save_workflow':
+        const saved = await this.workflowLibrary.saveWorkflow(args);
+        return {
+          workflowId: saved.workflowId,
+          version: saved.version,
+          savedAt: saved.savedAt,
+          uri: `chaining://workflows/definitions/${saved.workflowId}`,
+        };
+
+      case 'list_workflows':
+        const workflows = await this.workflowLibrary.listWorkflows();
+        return {
+          workflows,
+          total: workflows.length,
+        };
+
+      case 'get_workflow':
+        return await this.workflowLibrary.getWorkflow(args.workflowId, args.version);
+
+      case 'run_saved_workflow':
+        const workflow = await this.workflowLibrary.getWorkflow(args.workflowId, args.version);
+        const input = applyWorkflowOverrides(workflow, {
+          variables: args.variables,
+          parameters: args.parameters,
+          failFast: args.failFast,
+          timeout: args.timeout,
+        });
+
+        if (args.background) {
+          const startedRun = this.workflowOrchestrator.startWorkflow(input);
+          return {
+            runId: startedRun.runId,
+            workflowId: startedRun.workflowId,
+            version: workflow.version,
+            status: startedRun.status,
+            startedAt: startedRun.startedAt,
+            totalSteps: startedRun.totalSteps,
+          };
+        }
+
+        const runResult = await this.workflowOrchestrator.executeWorkflow(input, this.createWorkflowRunOptions(context));
+        return {
+          version: workflow.version,
+          ...this.formatWorkflowRun(runResult),
+        };
+
+      default:
+        throw new Error(`Unknown workflow library tool: ${name}`);
+    }
+  }
+
+  private createWorkflowRunOptions(context: ToolCallContext): WorkflowRunOptions {
+    const sendProgress = context.sendProgress;
+    if (!sendProgress) {
+      return {};
+    }
+
+    return {
+      onProgress: progress => {
+        sendProgress(progress.finishedSteps, progress.totalSteps, progress.message).catch(error => {
+          console.error('Failed to send workflow progress notification:', error);
+        });
+      },
+    };
+  }
+
+  private formatWorkflowRun(workflowResult: WorkflowExecutionResult): any {
+    return {
+      runId: workflowResult.runId,
+      workflowId: workflowResult.workflowId,
+      name: workflowResult.name,
+      status: workflowResult.status,
+      resumedFrom: workflowResult.resumedFrom,
+      progress: { finishedSteps: countFinishedSteps(workflowResult), totalSteps: workflowResult.totalSteps },
+      steps: workflowResult.steps.map(step => ({
+        stepId: step.stepId,
+        status: step.status,
+        serverName: step.serverName,
+        toolName: step.toolName,
+        startedAt: step.startedAt,
+        completedAt: step.completedAt,
+        executionTime: step.executionTime,
+        result: step.result,
+        error: step.error,
+        retryCount: step.retryCount,
+        attempts: step.attempts,
+        dependencies: step.dependencies,
+        skipReason: step.skipReason,
+        branch: step.branch,
+        parentStepId: step.parentStepId,
+        iteration: step.iteration,
+        reusedFrom: step.reusedFrom,
+      })),
+      overallResult: workflowResult.overallResult,
+      executionTime: workflowResult.executionTime,
+      startedAt: workflowResult.startedAt,
+      completedAt: workflowResult.completedAt,
+      error: workflowResult.error,
+    };
+  }
+
+  private async handleReliabilityTool(name: string, args: any): Promise<any> {
+    switch (name) {
+      case 'get_server_health':
+        const health = this.reliabilityManager.healthCheck();
+        return {
+          status: health.status,
+          message: health.message,
+          metrics: health.metrics,
+          discovery: {
+            servers: this.discovery.getServers().length,
+            tools: this.discovery.getTools().length,
+          },
+          sessions: this.sessions.getSessionStatus(),
+          timestamp: new Date().toISOString(),
+        };
+
+      case 'get_reliability_metrics':
+        const metrics = this.reliabilityManager.getMetrics();
+        return {
+          ...metrics,
+          recentRequests: args?.toolName
+            ? metrics.recentRequests.filter(request => request.tool === args.toolName)
+            : metrics.recentRequests,
+          retryPolicy: args?.toolName ? this.reliabilityManager.getRetryConfig(args.toolName) : undefined,
+          downstreamTools: this.toolStats.listStats().filter(stats => !args?.toolName || stats.toolName === args.toolName),
+        };
+
+      default:
+        throw new Error(`Unknown reliability tool: ${name}`);
+    }
+  }
+
   private analyzeToolChainPerformance(
     toolChain: any[],
     options: {
@@ -647,6 +943,7 @@ export class RequestHandlers {
       averageComplexity: number;
       bottleneckSteps: string[];
       parallelizationPotential: number;
+      measuredSteps: Array<{ id: string; p50Latency?: number; p95Latency?: number; failureRate: number; calls: number }>;
     };
     complexity: {
       overallComplexity: number;
@@ -674,6 +971,7 @@ export class RequestHandlers {
     averageComplexity: number;
     bottleneckSteps: string[];
     parallelizationPotential: number;
+    measuredSteps: Array<{ id: string; p50Latency?: number; p95Latency?: number; failureRate: number; calls: number }>;
   } {
     if (!options.includeExecutionMetrics) {
       return {
@@ -681,6 +979,7 @@ export class RequestHandlers {
         averageComplexity: 0,
         bottleneckSteps: [],
         parallelizationPotential: 0,
+        measuredSteps: [],
       };
     }
 
@@ -688,9 +987,22 @@ export class RequestHandlers {
     let totalComplexity = 0;
     const stepDurations: Array<{ id: string; duration: number }> = [];
     const stepComplexities: Array<{ id: string; complexity: number }> = [];
+    const measuredSteps: Array<{ id: string; p50Latency?: number; p95Latency?: number; failureRate: number; calls: number }> = [];
 
     toolChain.forEach(step => {
-      const duration = step.estimatedDuration || step.duration || 1000;
+      // Measured latency wins over estimates once the tool has been called often enough
+      const stats = step.serverName && step.toolName ? this.toolStats.getStats(step.serverName, step.toolName) : undefined;
+      if (stats) {
+        measuredSteps.push({
+          id: step.id,
+          p50Latency: stats.p50Latency,
+          p95Latency: stats.p95Latency,
+          failureRate: stats.failureRate,
+          calls: stats.calls,
+        });
+      }
+
+      const duration = stats?.p50Latency ?? (step.estimatedDuration || step.duration || 1000);
       const complexity = step.estimatedComplexity || step.complexity || 3;
 
       totalDuration += duration;
@@ -713,6 +1025,7 @@ export class RequestHandlers {
       averageComplexity: totalComplexity / toolChain.length,
       bottleneckSteps,
       parallelizationPotential,
+      measuredSteps,
     };
   }
 
@@ -755,6 +1068,13 @@ export class RequestHandlers {
       riskFactors.push(`${highComplexitySteps.length} steps have high complexity and may be error-prone`);
     }
 
+    const unreliableSteps = toolChain.filter(step =>
+      step.serverName && step.toolName && (this.toolStats.getStats(step.serverName, step.toolName)?.failureRate ?? 0) >= 0.2
+    );
+    if (unreliableSteps.length > 0) {
+      riskFactors.push(`${unreliableSteps.length} steps call tools that failed in at least 20% of recent calls`);
+    }
+
     const stepsWithRetries = toolChain.filter(step => step.retryOnFailure);
     if (stepsWithRetries.length > toolChain.length * 0.3) {
       riskFactors.push('High number of steps with retry logic may impact performance');
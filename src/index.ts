@@ -1,6 +1,37 @@
 #!/usr/bin/env node
 
-import { ChainingMCPServer } from './server.js';
+import { ChainingMCPServer, StartOptions } from './server.js';
+
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Serve over Streamable HTTP with --http or MCP_TRANSPORT=http, on stdio otherwise.
+ * The bearer token is only read from the environment so it does not show up in process lists.
+ */
+function parseStartOptions(argv: string[]): StartOptions {
+  if (!argv.includes('--http') && process.env.MCP_TRANSPORT !== 'http') {
+    return {};
+  }
+
+  const flag = (name: string) => {
+    const index = argv.indexOf(name);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+
+  const port = Number(flag('--port') ?? process.env.MCP_HTTP_PORT ?? DEFAULT_HTTP_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${flag('--port') ?? process.env.MCP_HTTP_PORT}`);
+  }
+
+  return {
+    http: {
+      host: flag('--host') ?? process.env.MCP_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+      port,
+      token: process.env.MCP_HTTP_TOKEN || undefined,
+    },
+  };
+}
 
 async function main() {
   const server = new ChainingMCPServer();
@@ -8,16 +39,18 @@ async function main() {
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
     console.error('Shutting down Chaining MCP Server...');
+    await server.stop();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
     console.error('Shutting down Chaining MCP Server...');
+    await server.stop();
     process.exit(0);
   });
 
   try {
-    await server.start();
+    await server.start(parseStartOptions(process.argv.slice(2)));
   } catch (error) {
     console.error('Failed to start Chaining MCP Server:', error);
     process.exit(1);
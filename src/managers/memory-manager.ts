@@ -1,165 +1,102 @@
-import { promises as fs } from 'fs';
 import path from 'path';
-import { fileURLToPath } from 'url';
 import { Entity, Relation } from '../types.js';
+import { KnowledgeGraph, KnowledgeGraphStorage } from '../storage/knowledge-graph-storage.js';
+import { JsonlGraphStorage } from '../storage/jsonl-graph-storage.js';
+import { SqliteGraphStorage } from '../storage/sqlite-graph-storage.js';
+import { resolveDataPath } from '../utils/data-path.js';
 
 // Define memory file path using environment variable with fallback
-const defaultMemoryPath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'memory.json');
-
-// If MEMORY_FILE_PATH is just a filename, put it in the same directory as the script
-const MEMORY_FILE_PATH = process.env.MEMORY_FILE_PATH
-  ? path.isAbsolute(process.env.MEMORY_FILE_PATH)
-    ? process.env.MEMORY_FILE_PATH
-    : path.join(path.dirname(fileURLToPath(import.meta.url)), process.env.MEMORY_FILE_PATH)
-  : defaultMemoryPath;
-
-// We are storing our memory using entities, relations, and observations in a graph structure
-interface KnowledgeGraph {
-  entities: Entity[];
-  relations: Relation[];
+const MEMORY_FILE_PATH = resolveDataPath(process.env.MEMORY_FILE_PATH || 'memory.json');
+
+// SQLite database path, next to the JSONL file by default
+const MEMORY_DB_PATH = process.env.MEMORY_DB_PATH
+  ? resolveDataPath(process.env.MEMORY_DB_PATH)
+  : path.join(path.dirname(MEMORY_FILE_PATH), 'memory.db');
+
+// 'sqlite' (default) or 'jsonl'
+const MEMORY_STORAGE = (process.env.MEMORY_STORAGE || 'sqlite').toLowerCase();
+
+export type { KnowledgeGraph };
+
+/**
+ * Create the configured storage engine.
+ * The SQLite engine imports an existing JSONL memory file the first time it runs.
+ */
+async function createStorage(): Promise<KnowledgeGraphStorage> {
+  if (MEMORY_STORAGE === 'jsonl') {
+    return new JsonlGraphStorage(MEMORY_FILE_PATH);
+  }
+
+  const storage = new SqliteGraphStorage(MEMORY_DB_PATH);
+  const migration = await storage.migrateFromJsonl(MEMORY_FILE_PATH);
+  if (migration.migrated) {
+    console.error(`Migrated ${migration.entities} entities and ${migration.relations} relations from ${MEMORY_FILE_PATH} to ${MEMORY_DB_PATH}`);
+  }
+  return storage;
 }
 
 // The KnowledgeGraphManager class contains all operations to interact with the knowledge graph
 export class KnowledgeGraphManager {
-  private async loadGraph(): Promise<KnowledgeGraph> {
-    try {
-      const data = await fs.readFile(MEMORY_FILE_PATH, "utf-8");
-      const lines = data.split("\n").filter(line => line.trim() !== "");
-      return lines.reduce((graph: KnowledgeGraph, line) => {
-        const item = JSON.parse(line);
-        if (item.type === "entity") graph.entities.push(item as Entity);
-        if (item.type === "relation") graph.relations.push(item as Relation);
-        return graph;
-      }, { entities: [], relations: [] });
-    } catch (error) {
-      if (error instanceof Error && 'code' in error && (error as any).code === "ENOENT") {
-        return { entities: [], relations: [] };
-      }
-      throw error;
+  private storage: Promise<KnowledgeGraphStorage> | null = null;
+
+  constructor(storage?: KnowledgeGraphStorage) {
+    if (storage) {
+      this.storage = Promise.resolve(storage);
     }
   }
 
-  private async saveGraph(graph: KnowledgeGraph): Promise<void> {
-    const lines = [
-      ...graph.entities.map(e => JSON.stringify({ type: "entity", ...e })),
-      ...graph.relations.map(r => JSON.stringify({ type: "relation", ...r })),
-    ];
-    await fs.writeFile(MEMORY_FILE_PATH, lines.join("\n"));
+  // Storage is opened lazily so the server starts even if the database is unavailable
+  private getStorage(): Promise<KnowledgeGraphStorage> {
+    if (!this.storage) {
+      this.storage = createStorage();
+      this.storage.catch(() => {
+        this.storage = null;
+      });
+    }
+    return this.storage;
   }
 
   async createEntities(entities: Entity[]): Promise<Entity[]> {
-    const graph = await this.loadGraph();
-    const newEntities = entities.filter(e => !graph.entities.some(existingEntity => existingEntity.name === e.name));
-    graph.entities.push(...newEntities);
-    await this.saveGraph(graph);
-    return newEntities;
+    return (await this.getStorage()).createEntities(entities);
   }
 
   async createRelations(relations: Relation[]): Promise<Relation[]> {
-    const graph = await this.loadGraph();
-    const newRelations = relations.filter(r => !graph.relations.some(existingRelation => 
-      existingRelation.from === r.from && 
-      existingRelation.to === r.to && 
-      existingRelation.relationType === r.relationType
-    ));
-    graph.relations.push(...newRelations);
-    await this.saveGraph(graph);
-    return newRelations;
+    return (await this.getStorage()).createRelations(relations);
   }
 
   async addObservations(observations: { entityName: string; contents: string[] }[]): Promise<{ entityName: string; addedObservations: string[] }[]> {
-    const graph = await this.loadGraph();
-    const results = observations.map(o => {
-      const entity = graph.entities.find(e => e.name === o.entityName);
-      if (!entity) {
-        throw new Error(`Entity with name ${o.entityName} not found`);
-      }
-      const newObservations = o.contents.filter(content => !entity.observations.includes(content));
-      entity.observations.push(...newObservations);
-      return { entityName: o.entityName, addedObservations: newObservations };
-    });
-    await this.saveGraph(graph);
-    return results;
+    return (await this.getStorage()).addObservations(observations);
   }
 
   async deleteEntities(entityNames: string[]): Promise<void> {
-    const graph = await this.loadGraph();
-    graph.entities = graph.entities.filter(e => !entityNames.includes(e.name));
-    graph.relations = graph.relations.filter(r => !entityNames.includes(r.from) && !entityNames.includes(r.to));
-    await this.saveGraph(graph);
+    return (await this.getStorage()).deleteEntities(entityNames);
   }
 
   async deleteObservations(deletions: { entityName: string; observations: string[] }[]): Promise<void> {
-    const graph = await this.loadGraph();
-    deletions.forEach(d => {
-      const entity = graph.entities.find(e => e.name === d.entityName);
-      if (entity) {
-        entity.observations = entity.observations.filter(o => !d.observations.includes(o));
-      }
-    });
-    await this.saveGraph(graph);
+    return (await this.getStorage()).deleteObservations(deletions);
   }
 
   async deleteRelations(relations: Relation[]): Promise<void> {
-    const graph = await this.loadGraph();
-    graph.relations = graph.relations.filter(r => !relations.some(delRelation => 
-      r.from === delRelation.from && 
-      r.to === delRelation.to && 
-      r.relationType === delRelation.relationType
-    ));
-    await this.saveGraph(graph);
+    return (await this.getStorage()).deleteRelations(relations);
   }
 
   async readGraph(): Promise<KnowledgeGraph> {
-    return this.loadGraph();
+    return (await this.getStorage()).readGraph();
   }
 
-  // Very basic search function
   async searchNodes(query: string): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Filter entities
-    const filteredEntities = graph.entities.filter(e => 
-      e.name.toLowerCase().includes(query.toLowerCase()) ||
-      e.entityType.toLowerCase().includes(query.toLowerCase()) ||
-      e.observations.some(o => o.toLowerCase().includes(query.toLowerCase()))
-    );
-  
-    // Create a Set of filtered entity names for quick lookup
-    const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
-  
-    // Filter relations to only include those between filtered entities
-    const filteredRelations = graph.relations.filter(r => 
-      filteredEntityNames.has(r.from) && filteredEntityNames.has(r.to)
-    );
-  
-    const filteredGraph: KnowledgeGraph = {
-      entities: filteredEntities,
-      relations: filteredRelations,
-    };
-  
-    return filteredGraph;
+    return (await this.getStorage()).searchNodes(query);
   }
 
   async openNodes(names: string[]): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Filter entities
-    const filteredEntities = graph.entities.filter(e => names.includes(e.name));
-  
-    // Create a Set of filtered entity names for quick lookup
-    const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
-  
-    // Filter relations to only include those between filtered entities
-    const filteredRelations = graph.relations.filter(r => 
-      filteredEntityNames.has(r.from) && filteredEntityNames.has(r.to)
-    );
-  
-    const filteredGraph: KnowledgeGraph = {
-      entities: filteredEntities,
-      relations: filteredRelations,
-    };
-  
-    return filteredGraph;
+    return (await this.getStorage()).openNodes(names);
+  }
+
+  async close(): Promise<void> {
+    if (this.storage) {
+      const storage = await this.storage;
+      this.storage = null;
+      await storage.close();
+    }
   }
 }
@@ -51,9 +51,15 @@ export class ReliabilityManager {
     maxDelay: 30000,
   };
 
+  private toolRetryConfigs = new Map<string, Partial<RetryConfig>>();
+
   private startTime: Date = new Date();
 
-  constructor() {
+  constructor(retryConfig: Partial<RetryConfig> = {}, toolRetryConfigs: Record<string, Partial<RetryConfig>> = {}) {
+    this.retryConfig = { ...this.retryConfig, ...retryConfig };
+    for (const [toolName, config] of Object.entries(toolRetryConfigs)) {
+      this.toolRetryConfigs.set(toolName, config);
+    }
     this.initializeMetrics();
   }
 
@@ -65,7 +71,7 @@ export class ReliabilityManager {
     setInterval(() => {
       this.metrics.uptime = Date.now() - this.startTime.getTime();
       this.updateErrorRate();
-    }, 60000); // Update every minute
+    }, 60000).unref(); // Update every minute
   }
 
   /**
@@ -77,9 +83,12 @@ export class ReliabilityManager {
     context?: string
   ): Promise<T> {
     const startTime = Date.now();
+    const retryConfig = this.getRetryConfig(toolName);
     let lastError: Error | null = null;
+    let attempts = 0;
 
-    for (let attempt = 0; attempt <= this.retryConfig.maxRetries; attempt++) {
+    for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
+      attempts++;
       try {
         this.metrics.totalRequests++;
         const result = await operation();
@@ -94,23 +103,24 @@ export class ReliabilityManager {
         lastError = error instanceof Error ? error : new Error(String(error));
         const duration = Date.now() - startTime;
 
-        console.warn(`Attempt ${attempt + 1}/${this.retryConfig.maxRetries + 1} failed for ${toolName}:`, lastError.message);
+        console.warn(`Attempt ${attempt + 1}/${retryConfig.maxRetries + 1} failed for ${toolName}:`, lastError.message);
 
         // Record failed attempt
         this.recordRequest(toolName, duration, false, lastError.message);
 
-        // Don't retry on the last attempt
-        if (attempt === this.retryConfig.maxRetries) {
+        // Don't retry on the last attempt or when retrying cannot help
+        if (attempt === retryConfig.maxRetries || !this.isRetryableError(lastError)) {
           break;
         }
 
         // Calculate delay with exponential backoff
         const delay = Math.min(
-          this.retryConfig.initialDelay * Math.pow(this.retryConfig.backoffMultiplier, attempt),
-          this.retryConfig.maxDelay
+          retryConfig.initialDelay * Math.pow(retryConfig.backoffMultiplier, attempt),
+          retryConfig.maxDelay
         );
 
-        console.log(`Retrying ${toolName} in ${delay}ms...`);
+        // stdout carries the MCP protocol, so progress goes to stderr
+        console.error(`Retrying ${toolName} in ${delay}ms...`);
         await this.delay(delay);
       }
     }
@@ -123,7 +133,24 @@ export class ReliabilityManager {
       error: lastError?.message || 'Unknown error',
     };
 
-    throw new Error(`Operation failed after ${this.retryConfig.maxRetries + 1} attempts: ${lastError?.message}`);
+    // Without retries the original error is more useful than a wrapper
+    if (attempts === 1 && lastError) {
+      throw lastError;
+    }
+
+    throw new Error(`Operation failed after ${attempts} attempts: ${lastError?.message}`);
+  }
+
+  /**
+   * Invalid input and unknown tools fail the same way on every attempt
+   */
+  private isRetryableError(error: Error): boolean {
+    for (let current: unknown = error; current instanceof Error; current = current.cause) {
+      if (current.name === 'ZodError' || current.message.startsWith('Unknown tool')) {
+        return false;
+      }
+    }
+    return true;
   }
 
   /**
@@ -243,8 +270,9 @@ Please check the tool parameters and try again. If the issue persists, check the
       this.requestHistory = this.requestHistory.slice(-1000);
     }
 
-    // Update average response time
+    // Update average response time and error rate
     this.updateAverageResponseTime();
+    this.updateErrorRate();
   }
 
   /**
@@ -282,6 +310,7 @@ Please check the tool parameters and try again. If the issue persists, check the
     }>;
     uptimeFormatted: string;
   } {
+    this.metrics.uptime = Date.now() - this.startTime.getTime();
     return {
       ...this.metrics,
       recentRequests: this.requestHistory.slice(-50), // Last 50 requests
@@ -312,6 +341,7 @@ Please check the tool parameters and try again. If the issue persists, check the
     message: string;
     metrics: Partial<ReliabilityMetrics>;
   } {
+    this.metrics.uptime = Date.now() - this.startTime.getTime();
     const errorRate = this.metrics.errorRate;
     const avgResponseTime = this.metrics.averageResponseTime;
 
@@ -361,6 +391,20 @@ Please check the tool parameters and try again. If the issue persists, check the
     this.retryConfig = { ...this.retryConfig, ...config };
   }
 
+  /**
+   * Configure retry behavior for a single tool
+   */
+  setToolRetryConfig(toolName: string, config: Partial<RetryConfig>): void {
+    this.toolRetryConfigs.set(toolName, config);
+  }
+
+  /**
+   * Get the effective retry configuration for a tool
+   */
+  getRetryConfig(toolName: string): RetryConfig {
+    return { ...this.retryConfig, ...this.toolRetryConfigs.get(toolName) };
+  }
+
   /**
    * Utility method for delays
    */
@@ -0,0 +1,105 @@
+import { ParameterBinding, ToolInfo, WorkflowOrchestratorInput, WorkflowStep } from '../types.js';
+import { bindChain } from '../core/schema-composer.js';
+
+export type RouteTool = Pick<ToolInfo, 'name' | 'serverName'> & Partial<ToolInfo>;
+
+export interface RouteWorkflowOptions {
+  workflowId?: string;
+  name?: string;
+  description?: string;
+  variables?: Record<string, any>;
+}
+
+export interface RouteWorkflowDraft {
+  workflow: WorkflowOrchestratorInput;
+  mappings: { stepId: string; parameter: string; source: string }[]; // outputMapping entries of the workflow
+  proposals: { stepId: string; parameter: string; source: string; match: ParameterBinding['match'] }[]; // bindings left unwired for review
+  variables: string[]; // variables the workflow reads for required parameters
+  missingVariables: string[]; // of those, the ones not given in the options
+}
+
+/**
+ * Build a workflow skeleton that calls the tools of a route in order.
+ *
+ * Required input properties bound by name to an output an earlier step declares in its
+ * outputSchema (see bindChain) are mapped from that step, which becomes a dependency.
+ * Bindings by alias or description, or into optional properties, are only returned as
+ * proposals: a shared word is too weak a signal to wire into a workflow that runs unreviewed.
+ * Outputs only inferred from descriptions are left out, since the tool does not promise them.
+ * Other required properties use their schema default, or read `{{variables.<name>}}`.
+ * A step that maps nothing depends on the previous step, so the route order is kept.
+ */
+export function buildWorkflowFromRoute(tools: RouteTool[], options: RouteWorkflowOptions = {}): RouteWorkflowDraft {
+  const steps: WorkflowStep[] = [];
+  const bindings = bindChain(tools).bindings.filter(binding => !binding.inferred);
+  const mappings: RouteWorkflowDraft['mappings'] = [];
+  const proposals: RouteWorkflowDraft['proposals'] = [];
+  const variables = new Set<string>();
+
+  tools.forEach((tool, index) => {
+    const id = uniqueStepId(tool.name, steps);
+    const properties: Record<string, any> = tool.inputSchema?.properties ?? {};
+    const required: string[] = Array.isArray(tool.inputSchema?.required) ? tool.inputSchema!.required : [];
+    const parameters: Record<string, any> = {};
+    const outputMapping: Record<string, string> = {};
+    const dependsOn = new Set<string>();
+
+    for (const binding of bindings.filter(binding => binding.toStep === index)) {
+      const source = `${steps[binding.fromStep].id}.${binding.output}`;
+      if (binding.match !== 'name' || !required.includes(binding.input)) {
+        proposals.push({ stepId: id, parameter: binding.input, source, match: binding.match });
+        continue;
+      }
+      outputMapping[binding.input] = source;
+      dependsOn.add(steps[binding.fromStep].id);
+      mappings.push({ stepId: id, parameter: binding.input, source });
+    }
+
+    for (const property of required) {
+      if (outputMapping[property] === undefined) {
+        if (properties[property]?.default !== undefined) {
+          parameters[property] = properties[property].default;
+        } else {
+          parameters[property] = `{{variables.${property}}}`;
+          variables.add(property);
+        }
+      }
+    }
+
+    if (dependsOn.size === 0 && steps.length > 0) {
+      dependsOn.add(steps[steps.length - 1].id);
+    }
+
+    steps.push({
+      id,
+      serverName: tool.serverName,
+      toolName: tool.name,
+      parameters,
+      ...(dependsOn.size > 0 && { dependsOn: [...dependsOn] }),
+      ...(Object.keys(outputMapping).length > 0 && { outputMapping }),
+    });
+  });
+
+  const workflowId = options.workflowId ?? `route-${tools.map(tool => tool.name).join('-')}`;
+  return {
+    workflow: {
+      workflowId,
+      name: options.name ?? `Route: ${tools.map(tool => tool.name).join(' → ')}`,
+      description: options.description,
+      steps,
+      variables: options.variables,
+    },
+    mappings,
+    proposals,
+    variables: [...variables],
+    missingVariables: [...variables].filter(name => options.variables?.[name] === undefined),
+  };
+}
+
+function uniqueStepId(toolName: string, steps: WorkflowStep[]): string {
+  let id = toolName;
+  for (let n = 2; steps.some(step => step.id === id); n++) {
+    id = `${toolName}_${n}`;
+  }
+  return id;
+}
@@ -0,0 +1,158 @@
+import { ToolInfo } from '../types.js';
+import { ToolCallSample, ToolStatsStorage } from '../storage/tool-stats-storage.js';
+import { LazyStore } from '../storage/lazy-store.js';
+import { resolveDataPath } from '../utils/data-path.js';
+
+// SQLite database of observed tool calls
+const TOOL_STATS_DB_PATH = resolveDataPath(process.env.TOOL_STATS_DB_PATH || 'tool-stats.db');
+
+// Below this many calls a tool keeps its heuristic estimates
+const TOOL_STATS_MIN_SAMPLES = Number(process.env.TOOL_STATS_MIN_SAMPLES ?? 5);
+
+// Most recent calls kept per tool
+const TOOL_STATS_MAX_SAMPLES = Number(process.env.TOOL_STATS_MAX_SAMPLES ?? 200);
+
+export interface ToolStats {
+  serverName: string;
+  toolName: string;
+  calls: number;
+  failures: number;
+  failureRate: number;
+  p50Latency?: number; // of successful calls, in milliseconds
+  p95Latency?: number;
+  lastCalledAt: string;
+  sparse: boolean; // fewer calls than TOOL_STATS_MIN_SAMPLES; heuristics are used instead
+}
+
+const statsKey = (serverName: string, toolName: string) => JSON.stringify([serverName, toolName]);
+
+/**
+ * Observed latency and success rate of downstream tools, measured from real calls.
+ * Samples are kept in memory so estimates can be read synchronously, and persisted to SQLite.
+ */
+export class ToolStatsManager {
+  private storage: LazyStore<ToolStatsStorage>;
+  private samples = new Map<string, ToolCallSample[]>();
+  private loading: Promise<void> | null = null;
+  private revision = 0;
+  private changedAt = new Map<string, number>(); // revision of the last call recorded for each tool
+
+  constructor(storage?: ToolStatsStorage) {
+    this.storage = new LazyStore(() => new ToolStatsStorage(TOOL_STATS_DB_PATH, TOOL_STATS_MAX_SAMPLES), storage);
+  }
+
+  /**
+   * Load the stored samples; failures are logged and leave the heuristics in place
+   */
+  async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          // Calls recorded before loading are already in the store
+          const stored = await this.storage.get().loadSamples();
+          this.samples.clear();
+          stored.forEach(sample => this.addSample(sample));
+        } catch (error) {
+          console.error('Failed to load tool stats:', error instanceof Error ? error.message : error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Record one call of a tool; storage failures are logged and never fail the call
+   */
+  async recordCall(serverName: string, toolName: string, duration: number, success: boolean): Promise<void> {
+    const sample: ToolCallSample = { serverName, toolName, duration, success, calledAt: new Date().toISOString() };
+    this.addSample(sample);
+
+    try {
+      await this.storage.get().saveSample(sample);
+    } catch (error) {
+      console.error(`Failed to record stats for ${serverName}/${toolName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Measured stats of a tool, or undefined while there are too few calls to trust them
+   */
+  getStats(serverName: string, toolName: string): ToolStats | undefined {
+    const stats = this.computeStats(this.samples.get(statsKey(serverName, toolName)) ?? []);
+    return stats && !stats.sparse ? stats : undefined;
+  }
+
+  /**
+   * Stats of every tool that has been called, including sparse ones
+   */
+  listStats(): ToolStats[] {
+    return [...this.samples.values()].map(samples => this.computeStats(samples)!);
+  }
+
+  /**
+   * The tool with its estimatedDuration replaced by the measured median latency, when known
+   */
+  applyMeasurements(tool: ToolInfo): ToolInfo {
+    const stats = this.getStats(tool.serverName, tool.name);
+    return stats?.p50Latency !== undefined ? { ...tool, estimatedDuration: stats.p50Latency } : tool;
+  }
+
+  /**
+   * Changes whenever a call is recorded, so callers can tell when cached estimates are stale
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Tools with calls recorded after the given revision
+   */
+  getChangedTools(sinceRevision: number): { serverName: string; toolName: string }[] {
+    return [...this.changedAt]
+      .filter(([, revision]) => revision > sinceRevision)
+      .map(([key]) => {
+        const [serverName, toolName] = JSON.parse(key) as [string, string];
+        return { serverName, toolName };
+      });
+  }
+
+  async close(): Promise<void> {
+    return this.storage.close();
+  }
+
+  private addSample(sample: ToolCallSample): void {
+    const key = statsKey(sample.serverName, sample.toolName);
+    const samples = this.samples.get(key) ?? [];
+    samples.push(sample);
+    if (samples.length > TOOL_STATS_MAX_SAMPLES) {
+      samples.splice(0, samples.length - TOOL_STATS_MAX_SAMPLES);
+    }
+    this.samples.set(key, samples);
+    this.changedAt.set(key, ++this.revision);
+  }
+
+  private computeStats(samples: ToolCallSample[]): ToolStats | undefined {
+    if (samples.length === 0) {
+      return undefined;
+    }
+
+    const latencies = samples.filter(sample => sample.success).map(sample => sample.duration).sort((a, b) => a - b);
+    const failures = samples.length - latencies.length;
+    return {
+      serverName: samples[0].serverName,
+      toolName: samples[0].toolName,
+      calls: samples.length,
+      failures,
+      failureRate: failures / samples.length,
+      p50Latency: percentile(latencies, 50),
+      p95Latency: percentile(latencies, 95),
+      lastCalledAt: samples[samples.length - 1].calledAt,
+      sparse: samples.length < TOOL_STATS_MIN_SAMPLES,
+    };
+  }
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number | undefined {
+  return sorted.length > 0 ? sorted[Math.ceil((p / 100) * sorted.length) - 1] : undefined;
+}
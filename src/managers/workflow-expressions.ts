@@ -0,0 +1,409 @@
+/**
+ * A small, sandboxed expression language for workflow conditions and parameter templates.
+ *
+ * Expressions are parsed and evaluated here, never passed to eval or Function.
+ * Supported: literals (numbers, 'strings', true, false, null), identifiers
+ * resolved from the context, member access (a.b, a['b'], a[0]), the unary
+ * operators ! and -, arithmetic (+ - * / %), comparisons (< <= > >= == != ===
+ * !==, where == and != are strict), && and ||, parentheses, and calls to the
+ * built-in functions below.
+ */
+
+export type ExpressionContext = Record<string, unknown>;
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string }
+  | { type: 'end' };
+
+type Node =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: Node; property: Node }
+  | { type: 'unary'; operator: string; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'call'; name: string; args: Node[] };
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '[', ']', '.', ','];
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+const FUNCTIONS: Record<string, (...args: any[]) => unknown> = {
+  // json(value, indent?) serializes a value
+  json: (value, indent) => JSON.stringify(value, null, indent),
+  // join(array, separator?) joins array items, ',' by default
+  join: (array, separator = ',') => {
+    if (!Array.isArray(array)) {
+      throw new Error('join() expects an array');
+    }
+    return array.join(separator);
+  },
+  // default(value, fallback) falls back when value is undefined or null
+  default: (value, fallback) => value ?? fallback,
+  // length(value) of a string or array
+  length: value => (typeof value === 'string' || Array.isArray(value) ? value.length : undefined),
+};
+
+// Properties that would escape the data passed in the context
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Binding power of each binary operator, higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3, '===': 3, '!==': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < expression.length) {
+    const char = expression[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(expression.slice(position))!;
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      position += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(expression.slice(position))!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      position += match[0].length;
+      continue;
+    }
+
+    if (char === '\'' || char === '"') {
+      let value = '';
+      position++;
+      while (position < expression.length && expression[position] !== char) {
+        if (expression[position] === '\\' && position + 1 < expression.length) {
+          position++;
+        }
+        value += expression[position];
+        position++;
+      }
+      if (position >= expression.length) {
+        throw new Error(`Unterminated string in expression: ${expression}`);
+      }
+      position++;
+      tokens.push({ type: 'string', value });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, position));
+    if (!operator) {
+      throw new Error(`Unexpected character '${char}' in expression: ${expression}`);
+    }
+    tokens.push({ type: 'operator', value: operator });
+    position += operator.length;
+  }
+
+  tokens.push({ type: 'end' });
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[], private expression: string) {}
+
+  parse(): Node {
+    const node = this.parseBinary(0);
+    if (this.peek().type !== 'end') {
+      throw this.error('Unexpected token');
+    }
+    return node;
+  }
+
+  private parseBinary(minPrecedence: number): Node {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token.type === 'operator' ? PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+      this.position++;
+      const right = this.parseBinary(precedence);
+      left = { type: 'binary', operator: (token as { value: string }).value, left, right };
+    }
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      this.position++;
+      return { type: 'unary', operator: token.value, operand: this.parseUnary() };
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): Node {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.consumeOperator('.')) {
+        const token = this.next();
+        if (token.type !== 'identifier') {
+          throw this.error('Expected a property name after "."');
+        }
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value } };
+      } else if (this.consumeOperator('[')) {
+        const property = this.parseBinary(0);
+        this.expectOperator(']');
+        node = { type: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] };
+        }
+        if (this.consumeOperator('(')) {
+          return { type: 'call', name: token.value, args: this.parseArguments() };
+        }
+        return { type: 'identifier', name: token.value };
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseBinary(0);
+          this.expectOperator(')');
+          return node;
+        }
+        break;
+    }
+
+    throw this.error('Unexpected token');
+  }
+
+  private parseArguments(): Node[] {
+    const args: Node[] = [];
+    if (this.consumeOperator(')')) {
+      return args;
+    }
+    do {
+      args.push(this.parseBinary(0));
+    } while (this.consumeOperator(','));
+    this.expectOperator(')');
+    return args;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== 'end') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private consumeOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.consumeOperator(value)) {
+      throw this.error(`Expected "${value}"`);
+    }
+  }
+
+  private error(message: string): Error {
+    return new Error(`${message} at token ${this.position + 1} in expression: ${this.expression}`);
+  }
+}
+
+function readProperty(object: unknown, property: unknown): unknown {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+
+  const key = String(property);
+  if (FORBIDDEN_PROPERTIES.has(key)) {
+    throw new Error(`Access to property '${key}' is not allowed in expressions`);
+  }
+
+  if (typeof object === 'string') {
+    return key === 'length' ? object.length : undefined;
+  }
+
+  // Only own data is visible, so expressions cannot reach prototype methods
+  return typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key)
+    ? (object as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function evaluateNode(node: Node, context: ExpressionContext): any {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+
+    case 'identifier':
+      if (!Object.prototype.hasOwnProperty.call(context, node.name)) {
+        throw new Error(`Unknown identifier '${node.name}' in expression`);
+      }
+      return context[node.name];
+
+    case 'member':
+      return readProperty(evaluateNode(node.object, context), evaluateNode(node.property, context));
+
+    case 'call':
+      if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name)) {
+        throw new Error(`Unknown function '${node.name}' in expression`);
+      }
+      return FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, context)));
+
+    case 'unary':
+      const operand = evaluateNode(node.operand, context);
+      return node.operator === '!' ? !operand : -operand;
+
+    case 'binary':
+      // Short-circuit like JavaScript
+      if (node.operator === '&&') {
+        const left = evaluateNode(node.left, context);
+        return left ? evaluateNode(node.right, context) : left;
+      }
+      if (node.operator === '||') {
+        const left = evaluateNode(node.left, context);
+        return left ? left : evaluateNode(node.right, context);
+      }
+
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      switch (node.operator) {
+        case '==':
+        case '===':
+          return left === right;
+        case '!=':
+        case '!==':
+          return left !== right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+      }
+  }
+
+  throw new Error('Unsupported expression');
+}
+
+/**
+ * Evaluate an expression against the given context
+ */
+export function evaluateExpression(expression: string, context: ExpressionContext): any {
+  const ast = new Parser(tokenize(expression), expression).parse();
+  return evaluateNode(ast, context);
+}
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+
+/**
+ * Replace {{expression}} templates in strings, recursing into arrays and objects.
+ * A string that is a single template keeps the type of the value; templates inside
+ * larger strings are interpolated, with objects serialized as JSON.
+ * A template that resolves to undefined is an error.
+ */
+export function renderTemplate(value: unknown, context: ExpressionContext, location = 'value'): any {
+  if (typeof value === 'string') {
+    return renderString(value, context, location);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => renderTemplate(item, context, `${location}[${index}]`));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplate(item, context, `${location}.${key}`)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Like renderTemplate, but a string whose templates cannot be resolved is kept as written
+ * and the reason is added to `unresolved`
+ */
+export function renderTemplatePartially(value: unknown, context: ExpressionContext, location: string, unresolved: string[]): any {
+  if (typeof value === 'string') {
+    try {
+      return renderString(value, context, location);
+    } catch (error) {
+      unresolved.push(error instanceof Error ? error.message : String(error));
+      return value;
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => renderTemplatePartially(item, context, `${location}[${index}]`, unresolved));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplatePartially(item, context, `${location}.${key}`, unresolved)])
+    );
+  }
+  return value;
+}
+
+function renderString(template: string, context: ExpressionContext, location: string): any {
+  const evaluate = (expression: string) => {
+    const result = evaluateExpression(expression.trim(), context);
+    if (result === undefined) {
+      throw new Error(`Unresolved reference in ${location}: {{${expression.trim()}}}`);
+    }
+    return result;
+  };
+
+  const whole = /^\{\{([\s\S]+?)\}\}$/.exec(template);
+  if (whole && !whole[1].includes('}}')) {
+    return evaluate(whole[1]);
+  }
+
+  return template.replace(TEMPLATE_PATTERN, (_match, expression: string) => {
+    const result = evaluate(expression);
+    return typeof result === 'string' ? result : JSON.stringify(result);
+  });
+}
+
+/**
+ * Read a dotted path such as `items[0].link` or `items.0.link` from a value
+ */
+export function readPath(value: unknown, path: string): any {
+  const segments = path
+    .replace(/\[\s*(?:'([^']*)'|"([^"]*)"|([^\]]*?))\s*\]/g, (_match, single, double, bare) => `.${single ?? double ?? bare}`)
+    .split('.')
+    .filter(segment => segment !== '');
+  return segments.reduce<unknown>((current, segment) => readProperty(current, segment), value);
+}
@@ -0,0 +1,41 @@
+import { WorkflowHistoryQuery, WorkflowHistoryStorage } from '../storage/workflow-history-storage.js';
+import { LazyStore } from '../storage/lazy-store.js';
+import type { WorkflowExecutionResult } from './workflow-orchestrator.js';
+import { resolveDataPath } from '../utils/data-path.js';
+
+// SQLite database of finished workflow runs
+const WORKFLOW_HISTORY_DB_PATH = resolveDataPath(process.env.WORKFLOW_HISTORY_DB_PATH || 'workflow-history.db');
+
+// Retention limits, 0 disables a limit
+const WORKFLOW_HISTORY_MAX_RUNS = Number(process.env.WORKFLOW_HISTORY_MAX_RUNS ?? 1000);
+const WORKFLOW_HISTORY_RETENTION_DAYS = Number(process.env.WORKFLOW_HISTORY_RETENTION_DAYS ?? 30);
+
+/**
+ * Persistent audit trail of workflow runs
+ */
+export class WorkflowHistoryManager {
+  private storage: LazyStore<WorkflowHistoryStorage>;
+
+  constructor(storage?: WorkflowHistoryStorage) {
+    this.storage = new LazyStore(() => new WorkflowHistoryStorage(WORKFLOW_HISTORY_DB_PATH, {
+      maxRuns: WORKFLOW_HISTORY_MAX_RUNS,
+      maxAgeDays: WORKFLOW_HISTORY_RETENTION_DAYS,
+    }), storage);
+  }
+
+  async recordRun(run: WorkflowExecutionResult): Promise<void> {
+    return this.storage.get().saveRun(run);
+  }
+
+  async getRun(runId: string): Promise<WorkflowExecutionResult | null> {
+    return this.storage.get().getRun(runId);
+  }
+
+  async queryRuns(query: WorkflowHistoryQuery): Promise<WorkflowExecutionResult[]> {
+    return this.storage.get().queryRuns(query);
+  }
+
+  async close(): Promise<void> {
+    return this.storage.close();
+  }
+}
@@ -0,0 +1,179 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  SavedWorkflow,
+  SavedWorkflowSchema,
+  WorkflowOrchestratorInput,
+  WorkflowOrchestratorSchema,
+} from '../types.js';
+import { resolveDataPath } from '../utils/data-path.js';
+
+// Directory holding saved workflow definitions
+const WORKFLOW_DEFINITIONS_DIR = resolveDataPath(process.env.WORKFLOW_DEFINITIONS_DIR || 'workflows');
+
+// Earlier versions are kept in this subdirectory as <workflowId>.v<version>.json
+const VERSIONS_DIR = 'versions';
+
+export interface SavedWorkflowSummary {
+  workflowId: string;
+  name: string;
+  description?: string;
+  version: number;
+  savedAt: string;
+  stepCount: number;
+}
+
+export interface WorkflowOverrides {
+  variables?: Record<string, any>;
+  parameters?: Record<string, Record<string, any>>; // step id -> parameters merged into the step's own
+  failFast?: boolean;
+  timeout?: number;
+}
+
+/**
+ * Saved workflow definitions, stored as one JSON file per workflow.
+ * Every save increments the version and archives the previous one.
+ */
+export class WorkflowLibrary {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string = WORKFLOW_DEFINITIONS_DIR) {}
+
+  /**
+   * Validate and save a definition as the next version of its workflow
+   */
+  async saveWorkflow(input: unknown): Promise<SavedWorkflow> {
+    const definition = WorkflowOrchestratorSchema.parse(input);
+
+    const run = this.queue.then(async () => {
+      const current = await this.readDefinition(this.definitionPath(definition.workflowId));
+      const saved = SavedWorkflowSchema.parse({
+        ...definition,
+        version: (current?.version ?? 0) + 1,
+        savedAt: new Date().toISOString(),
+      });
+
+      if (current) {
+        await fs.mkdir(path.join(this.directory, VERSIONS_DIR), { recursive: true });
+        await this.writeDefinition(this.versionPath(current.workflowId, current.version), current);
+      }
+      await this.writeDefinition(this.definitionPath(saved.workflowId), saved);
+      return saved;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Latest version of every saved workflow; files that fail validation are skipped
+   */
+  async listWorkflows(): Promise<SavedWorkflowSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const summaries: SavedWorkflowSummary[] = [];
+    for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+      try {
+        const workflow = await this.readDefinition(path.join(this.directory, file));
+        if (workflow) {
+          summaries.push({
+            workflowId: workflow.workflowId,
+            name: workflow.name,
+            description: workflow.description,
+            version: workflow.version,
+            savedAt: workflow.savedAt,
+            stepCount: workflow.steps.length,
+          });
+        }
+      } catch (error) {
+        console.error(`Skipping invalid workflow definition ${file}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * A saved workflow, at its latest version unless a version is given
+   */
+  async getWorkflow(workflowId: string, version?: number): Promise<SavedWorkflow> {
+    const latest = await this.readDefinition(this.definitionPath(workflowId));
+    if (!latest) {
+      throw new Error(`Saved workflow '${workflowId}' not found`);
+    }
+    if (version === undefined || version === latest.version) {
+      return latest;
+    }
+
+    const archived = await this.readDefinition(this.versionPath(workflowId, version));
+    if (!archived) {
+      throw new Error(`Version ${version} of saved workflow '${workflowId}' not found (latest is ${latest.version})`);
+    }
+    return archived;
+  }
+
+  private definitionPath(workflowId: string): string {
+    return path.join(this.directory, `${this.checkWorkflowId(workflowId)}.json`);
+  }
+
+  private versionPath(workflowId: string, version: number): string {
+    return path.join(this.directory, VERSIONS_DIR, `${this.checkWorkflowId(workflowId)}.v${version}.json`);
+  }
+
+  // Ids become file names, so they must not contain path separators
+  private checkWorkflowId(workflowId: string): string {
+    return SavedWorkflowSchema.shape.workflowId.parse(workflowId);
+  }
+
+  private async readDefinition(filePath: string): Promise<SavedWorkflow | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    return SavedWorkflowSchema.parse(JSON.parse(data));
+  }
+
+  private async writeDefinition(filePath: string, workflow: SavedWorkflow): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(workflow, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+}
+
+/**
+ * Turn a saved (or previously run) workflow into orchestrator input, applying run-time overrides
+ */
+export function applyWorkflowOverrides(
+  workflow: WorkflowOrchestratorInput | SavedWorkflow,
+  overrides: WorkflowOverrides = {}
+): WorkflowOrchestratorInput {
+  const { version, savedAt, ...definition } = workflow as SavedWorkflow;
+
+  const unknownSteps = Object.keys(overrides.parameters ?? {}).filter(stepId => !definition.steps.some(step => step.id === stepId));
+  if (unknownSteps.length > 0) {
+    throw new Error(`Parameter overrides refer to unknown steps: ${unknownSteps.join(', ')}`);
+  }
+
+  return {
+    ...definition,
+    steps: definition.steps.map(step => ({
+      ...step,
+      parameters: { ...step.parameters, ...overrides.parameters?.[step.id] },
+    })),
+    variables: { ...definition.variables, ...overrides.variables },
+    failFast: overrides.failFast ?? definition.failFast,
+    timeout: overrides.timeout ?? definition.timeout,
+  };
+}
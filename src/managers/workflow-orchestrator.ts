@@ -1,8 +1,19 @@
 import { z } from 'zod';
-import { WorkflowStep, WorkflowOrchestratorInput } from '../types.js';
+import { WorkflowStep, WorkflowOrchestratorInput, WorkflowErrorType, WorkflowOrchestratorSchema } from '../types.js';
+import { MCPServerDiscovery } from '../core/discovery.js';
+import { ServerSessionManager } from '../core/session-manager.js';
+import { ToolCallOptions } from '../core/mcp-client.js';
+import { resolveRetryPolicy, computeRetryDelay, classifyStepError } from './workflow-retry.js';
+import { evaluateExpression, renderTemplate, renderTemplatePartially, readPath, ExpressionContext } from './workflow-expressions.js';
+import { WorkflowHistoryManager } from './workflow-history.js';
+import { WorkflowOverrides, applyWorkflowOverrides } from './workflow-library.js';
+import { ToolStatsManager } from './tool-stats.js';
 
 export interface WorkflowExecutionResult {
+  runId: string;
   workflowId: string;
+  name: string;
+  totalSteps: number;
   status: 'completed' | 'failed' | 'running' | 'cancelled';
   steps: WorkflowStepResult[];
   overallResult: any;
@@ -10,6 +21,8 @@ export interface WorkflowExecutionResult {
   startedAt: string;
   completedAt?: string;
   error?: string;
+  input?: WorkflowOrchestratorInput; // definition that ran, kept so the run can be resumed
+  resumedFrom?: string; // run whose completed steps were reused
 }
 
 export interface WorkflowStepResult {
@@ -23,62 +36,534 @@ export interface WorkflowStepResult {
   result?: any;
   error?: string;
   retryCount?: number;
+  attempts?: WorkflowStepAttempt[];
   dependencies?: string[];
+  skipReason?: string;
+  branch?: string; // value of the switch expression, selects the case
+  parentStepId?: string; // set on the iterations of a forEach step
+  iteration?: number;
+  reusedFrom?: string; // run this completed result was taken from when resuming
+}
+
+export interface WorkflowStepAttempt {
+  attempt: number;
+  startedAt: string;
+  completedAt?: string;
+  executionTime?: number;
+  error?: string;
+  errorType?: WorkflowErrorType;
+  retryDelay?: number; // wait before the next attempt, in milliseconds
+}
+
+export interface WorkflowProgress {
+  runId: string;
+  finishedSteps: number;
+  totalSteps: number;
+  message: string;
+}
+
+export interface WorkflowRunOptions {
+  onProgress?: (progress: WorkflowProgress) => void;
+  resumeFrom?: WorkflowResumePoint;
+}
+
+/**
+ * Completed step results of an earlier run, reused instead of executing those steps again
+ */
+export interface WorkflowResumePoint {
+  runId: string;
+  steps: WorkflowStepResult[];
+}
+
+/**
+ * What a workflow would do, computed without executing any step
+ */
+export interface WorkflowPlan {
+  workflowId: string;
+  name: string;
+  dryRun: true;
+  totalSteps: number;
+  batches: WorkflowPlanStep[][]; // steps of a batch run in parallel
+  missingServers: string[];
+  missingTools: { stepId: string; serverName: string; toolName: string }[];
+  estimatedDuration: number; // sum of the slowest step of each batch, in milliseconds
+  unestimatedSteps: string[]; // steps whose tool has no duration estimate
+}
+
+export interface WorkflowPlanStep {
+  stepId: string;
+  serverName: string;
+  toolName: string;
+  dependencies: string[];
+  parameters: Record<string, any>; // resolved as far as possible; unresolved templates are kept as written
+  unresolved: string[]; // references that need results of earlier steps
+  when?: string;
+  iterations?: number; // forEach item count, when the items are known before running
+  estimatedDuration?: number;
+}
+
+// Finished runs kept in memory for status polling
+const MAX_FINISHED_RUNS = 100;
+
+// Iterations of a forEach step that run at the same time, unless the step sets a limit
+const DEFAULT_FOREACH_CONCURRENCY = 5;
+
+/**
+ * Reason attached to the workflow AbortSignal
+ */
+class WorkflowAbortError extends Error {
+  constructor(public kind: 'cancelled' | 'timeout', message: string) {
+    super(message);
+    this.name = 'WorkflowAbortError';
+  }
+}
+
+function abortableDelay(milliseconds: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 export class WorkflowOrchestrator {
   private activeWorkflows = new Map<string, WorkflowExecutionResult>();
+  private runControllers = new Map<string, AbortController>();
+  private runCompletions = new Map<string, Promise<void>>(); // settle once a run is finished and recorded
+
+  constructor(
+    private discovery: MCPServerDiscovery,
+    private sessions: ServerSessionManager,
+    private history?: WorkflowHistoryManager,
+    private toolStats?: ToolStatsManager
+  ) {}
+
+  /**
+   * Execute a workflow and wait for it to finish
+   */
+  async executeWorkflow(input: WorkflowOrchestratorInput, options: WorkflowRunOptions = {}): Promise<WorkflowExecutionResult> {
+    this.validateStepGraph(input.steps);
+    return this.runWorkflow(this.createRunId(input.workflowId), input, options);
+  }
+
+  /**
+   * Start a workflow in the background and return its run without waiting for it. The input
+   * must have passed WorkflowOrchestratorSchema; an invalid step graph throws here instead of
+   * failing in the background, and so does a run that could not be registered.
+   */
+  startWorkflow(input: WorkflowOrchestratorInput, options: WorkflowRunOptions = {}): WorkflowExecutionResult {
+    this.validateStepGraph(input.steps);
+    const runId = this.createRunId(input.workflowId);
+    this.runWorkflow(runId, input, options).catch(error => {
+      console.error(`Workflow run ${runId} crashed:`, error);
+    });
+
+    // runWorkflow registers the run before its first await
+    const run = this.activeWorkflows.get(runId);
+    if (!run) {
+      throw new Error(`Workflow run ${runId} could not be started`);
+    }
+    return run;
+  }
+
+  /**
+   * Plan a workflow without executing it: the parallel batches, parameters resolved as far as
+   * possible, servers and tools missing from discovery, and a duration estimate
+   */
+  planWorkflow(input: WorkflowOrchestratorInput): WorkflowPlan {
+    const servers = new Set(this.discovery.getServers().map(server => server.name));
+    const tools = this.discovery.getTools();
+    const plan: WorkflowPlan = {
+      workflowId: input.workflowId,
+      name: input.name,
+      dryRun: true,
+      totalSteps: input.steps.length,
+      batches: [],
+      missingServers: [],
+      missingTools: [],
+      estimatedDuration: 0,
+      unestimatedSteps: [],
+    };
+
+    for (const stepGroup of this.validateStepGraph(input.steps)) {
+      const batch = stepGroup.map(step => {
+        const tool = tools.find(t => t.serverName === step.serverName && t.name === step.toolName);
+        if (!servers.has(step.serverName)) {
+          if (!plan.missingServers.includes(step.serverName)) {
+            plan.missingServers.push(step.serverName);
+          }
+        } else if (!tool) {
+          plan.missingTools.push({ stepId: step.id, serverName: step.serverName, toolName: step.toolName });
+        }
+
+        const unresolved: string[] = [];
+        const parameters = this.previewParameters(step, input.variables, unresolved);
+        const plannedStep: WorkflowPlanStep = {
+          stepId: step.id,
+          serverName: step.serverName,
+          toolName: step.toolName,
+          dependencies: this.getDependencies(step, input.steps),
+          parameters,
+          unresolved,
+          when: step.when,
+        };
+
+        if (step.forEach && Array.isArray(parameters[step.forEach.parameter])) {
+          plannedStep.iterations = parameters[step.forEach.parameter].length;
+        }
+
+        if (tool?.estimatedDuration !== undefined) {
+          // Iterations run in waves of `concurrency`; an unknown item count counts as one wave
+          const waves = plannedStep.iterations !== undefined
+            ? Math.ceil(plannedStep.iterations / (step.forEach!.concurrency ?? DEFAULT_FOREACH_CONCURRENCY))
+            : 1;
+          plannedStep.estimatedDuration = tool.estimatedDuration * waves;
+        } else {
+          plan.unestimatedSteps.push(step.id);
+        }
+        return plannedStep;
+      });
+
+      plan.batches.push(batch);
+      plan.estimatedDuration += Math.max(0, ...batch.map(step => step.estimatedDuration ?? 0));
+    }
+
+    return plan;
+  }
 
-  async executeWorkflow(input: WorkflowOrchestratorInput): Promise<WorkflowExecutionResult> {
+  private async runWorkflow(runId: string, input: WorkflowOrchestratorInput, options: WorkflowRunOptions): Promise<WorkflowExecutionResult> {
     const startTime = Date.now();
-    const workflowId = input.workflowId;
 
     // Initialize workflow execution
     const execution: WorkflowExecutionResult = {
-      workflowId,
+      runId,
+      workflowId: input.workflowId,
+      name: input.name,
+      totalSteps: input.steps.length,
       status: 'running',
       steps: [],
       overallResult: {},
       executionTime: 0,
       startedAt: new Date().toISOString(),
+      input,
+      resumedFrom: options.resumeFrom?.runId,
     };
 
-    this.activeWorkflows.set(workflowId, execution);
+    // Reused results count as already executed
+    for (const step of options.resumeFrom?.steps ?? []) {
+      execution.steps.push({ ...step, reusedFrom: step.reusedFrom ?? options.resumeFrom!.runId });
+    }
+    const reusedStepIds = new Set(execution.steps.map(step => step.stepId));
+
+    this.activeWorkflows.set(runId, execution);
+
+    // Cancellation and the workflow timeout both abort this controller
+    const controller = new AbortController();
+    this.runControllers.set(runId, controller);
+    let settle!: () => void;
+    this.runCompletions.set(runId, new Promise<void>(resolve => (settle = resolve)));
+
+    const workflowTimer = input.timeout
+      ? setTimeout(() => controller.abort(new WorkflowAbortError('timeout', `Workflow timed out after ${input.timeout}ms`)), input.timeout)
+      : undefined;
 
     try {
       // Build execution plan
       const executionPlan = this.buildExecutionPlan(input.steps);
+      await this.recordRun(execution);
 
       // Execute steps in order
       for (const stepGroup of executionPlan) {
-        const stepPromises = stepGroup.map(step => this.executeStep(step, input, execution));
+        if (controller.signal.aborted) {
+          break;
+        }
+
+        // Each finished step is checkpointed to the history so the run can be resumed
+        const stepPromises = stepGroup
+          .filter(step => !reusedStepIds.has(step.id))
+          .map(step =>
+            this.executeStep(step, input, execution, controller.signal)
+              .then(() => this.reportProgress(execution, step.id, options))
+              .then(() => this.recordRun(execution))
+          );
         await Promise.all(stepPromises);
-      }
 
-      // Check if all steps completed successfully
-      const allCompleted = execution.steps.every(step => step.status === 'completed');
-      const anyFailed = execution.steps.some(step => step.status === 'failed');
+        // Failures with fallback steps are left for the fallbacks to handle
+        const failedStep = execution.steps.find(step =>
+          step.status === 'failed' && step.parentStepId === undefined &&
+          !input.steps.find(s => s.id === step.stepId)?.onFailure?.length
+        );
+        if (input.failFast && failedStep) {
+          this.skipRemainingSteps(input.steps, execution, `Workflow stopped after step '${failedStep.stepId}' failed (failFast)`);
+          break;
+        }
+      }
 
-      if (allCompleted && !anyFailed) {
-        execution.status = 'completed';
-        execution.overallResult = this.aggregateResults(execution.steps);
+      if (controller.signal.aborted) {
+        const reason = controller.signal.reason as WorkflowAbortError;
+        this.skipRemainingSteps(input.steps, execution, reason.message);
+        execution.status = reason.kind === 'cancelled' ? 'cancelled' : 'failed';
+        execution.error = reason.message;
       } else {
-        execution.status = 'failed';
-        execution.error = 'One or more workflow steps failed';
+        // Skipped steps are fine; failures count unless a fallback step recovered them
+        const unhandledFailure = execution.steps.some(step =>
+          step.status === 'failed' && step.parentStepId === undefined &&
+          !this.isFailureHandled(step.stepId, input.steps, execution)
+        );
+
+        if (!unhandledFailure) {
+          execution.status = 'completed';
+          execution.overallResult = this.aggregateResults(execution.steps.filter(step => step.parentStepId === undefined));
+        } else {
+          execution.status = 'failed';
+          execution.error = 'One or more workflow steps failed';
+        }
       }
 
     } catch (error) {
       execution.status = 'failed';
       execution.error = error instanceof Error ? error.message : 'Unknown error during workflow execution';
     } finally {
+      clearTimeout(workflowTimer);
+      this.runControllers.delete(runId);
       execution.executionTime = Date.now() - startTime;
       execution.completedAt = new Date().toISOString();
-      this.activeWorkflows.set(workflowId, execution);
+      this.pruneFinishedRuns();
+      await this.recordRun(execution);
+      this.runCompletions.delete(runId);
+      settle();
     }
 
     return execution;
   }
 
+  /**
+   * Prepare a rerun of a failed, cancelled or interrupted run. Completed steps are reused,
+   * unless their parameters are overridden or a step they depend on runs again.
+   */
+  async prepareResume(
+    runId: string,
+    overrides: WorkflowOverrides = {}
+  ): Promise<{ input: WorkflowOrchestratorInput; resumeFrom: WorkflowResumePoint }> {
+    const previous = await this.findWorkflowRun(runId);
+    if (!previous) {
+      throw new Error(`Workflow run '${runId}' not found`);
+    }
+    if (previous.status === 'completed') {
+      throw new Error(`Workflow run '${runId}' completed and has nothing to resume`);
+    }
+    if (this.runControllers.has(runId)) {
+      throw new Error(`Workflow run '${runId}' is still running`);
+    }
+    if (!previous.input) {
+      throw new Error(`Workflow run '${runId}' cannot be resumed because its definition was not recorded`);
+    }
+
+    // Definitions are recorded as given, so an old run may hold one that no longer validates
+    const input = applyWorkflowOverrides(WorkflowOrchestratorSchema.parse(previous.input), overrides);
+
+    // Steps to run again: everything that did not complete, overridden steps, and their dependents
+    const rerun = new Set(input.steps
+      .filter(step =>
+        overrides.parameters?.[step.id] !== undefined ||
+        !previous.steps.some(result => result.stepId === step.id && result.status === 'completed'))
+      .map(step => step.id));
+    for (let changed = true; changed;) {
+      changed = false;
+      for (const step of input.steps) {
+        if (!rerun.has(step.id) && this.getDependencies(step, input.steps).some(id => rerun.has(id))) {
+          rerun.add(step.id);
+          changed = true;
+        }
+      }
+    }
+
+    // Iterations of a reused forEach step are kept with their parent
+    const reused = previous.steps.filter(result => !rerun.has(result.parentStepId ?? result.stepId));
+
+    return { input, resumeFrom: { runId, steps: reused } };
+  }
+
+  /**
+   * Write a run to the history store; failures are logged and never fail the run
+   */
+  private async recordRun(execution: WorkflowExecutionResult): Promise<void> {
+    try {
+      await this.history?.recordRun(execution);
+    } catch (error) {
+      console.error(`Failed to record workflow run ${execution.runId} in history:`, error);
+    }
+  }
+
+  private createRunId(workflowId: string): string {
+    return `${workflowId}-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+  }
+
+  private reportProgress(execution: WorkflowExecutionResult, stepId: string, options: WorkflowRunOptions): void {
+    if (!options.onProgress) {
+      return;
+    }
+
+    const step = execution.steps.find(result => result.stepId === stepId);
+    try {
+      options.onProgress({
+        runId: execution.runId,
+        finishedSteps: countFinishedSteps(execution),
+        totalSteps: execution.totalSteps,
+        message: `Step '${stepId}' ${step?.status ?? 'finished'}`,
+      });
+    } catch (error) {
+      console.error(`Failed to report progress of workflow run ${execution.runId}:`, error);
+    }
+  }
+
+  /**
+   * Drop the oldest finished runs once more than MAX_FINISHED_RUNS are kept
+   */
+  private pruneFinishedRuns(): void {
+    const finished = Array.from(this.activeWorkflows.values()).filter(run => run.status !== 'running');
+    for (const run of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS))) {
+      this.activeWorkflows.delete(run.runId);
+    }
+  }
+
+  /**
+   * Record every step that never started as skipped
+   */
+  private skipRemainingSteps(steps: WorkflowStep[], execution: WorkflowExecutionResult, reason: string): void {
+    for (const step of steps) {
+      if (!execution.steps.some(result => result.stepId === step.id)) {
+        execution.steps.push({
+          stepId: step.id,
+          status: 'skipped',
+          serverName: step.serverName,
+          toolName: step.toolName,
+          dependencies: this.getDependencies(step, steps),
+          skipReason: reason,
+        });
+      }
+    }
+  }
+
+  /**
+   * Explicit dependencies plus the steps whose onFailure or switch lists this step
+   */
+  private getDependencies(step: WorkflowStep, steps: WorkflowStep[]): string[] {
+    const dependencies = new Set(step.dependsOn ?? []);
+    for (const owner of steps) {
+      if (owner.onFailure?.includes(step.id) || getSwitchTargets(owner).includes(step.id)) {
+        dependencies.add(owner.id);
+      }
+    }
+    return Array.from(dependencies);
+  }
+
+  /**
+   * Why a step should not run, given the results so far; undefined if it should run
+   */
+  private getSkipReason(step: WorkflowStep, workflow: WorkflowOrchestratorInput, execution: WorkflowExecutionResult): string | undefined {
+    const resultOf = (stepId: string) => execution.steps.find(result => result.stepId === stepId);
+
+    for (const owner of workflow.steps) {
+      if (owner.onFailure?.includes(step.id) && resultOf(owner.id)?.status !== 'failed') {
+        return `Fallback for step '${owner.id}', which did not fail`;
+      }
+
+      if (getSwitchTargets(owner).includes(step.id)) {
+        const ownerResult = resultOf(owner.id);
+        const selected = ownerResult?.status === 'completed' && ownerResult.branch !== undefined
+          ? getSwitchTargets(owner, ownerResult.branch)
+          : [];
+        if (!selected.includes(step.id)) {
+          return `Branch not selected by switch on step '${owner.id}'`;
+        }
+      }
+    }
+
+    // A condition decides on its own whether failed or skipped dependencies matter
+    if (!step.when) {
+      for (const dependencyId of step.dependsOn ?? []) {
+        const status = resultOf(dependencyId)?.status;
+        if (status !== 'completed') {
+          return `Dependency '${dependencyId}' ${status === 'failed' ? 'failed' : 'was skipped'}`;
+        }
+      }
+      return undefined;
+    }
+
+    if (!evaluateExpression(step.when, this.buildExpressionContext(execution, workflow.variables))) {
+      return `Condition not met: ${step.when}`;
+    }
+    return undefined;
+  }
+
+  private buildExpressionContext(execution: WorkflowExecutionResult, variables?: Record<string, any>): ExpressionContext {
+    const steps: Record<string, unknown> = {};
+    for (const result of execution.steps) {
+      steps[result.stepId] = {
+        status: result.status,
+        result: result.result,
+        error: result.error,
+        branch: result.branch,
+      };
+    }
+    return { steps, variables: variables ?? {} };
+  }
+
+  /**
+   * Evaluate the switch expression of a completed step; the value selects the case
+   */
+  private selectBranch(step: WorkflowStep, stepResult: WorkflowStepResult, workflow: WorkflowOrchestratorInput, execution: WorkflowExecutionResult): string {
+    const value = evaluateExpression(step.switch!.expression, {
+      ...this.buildExpressionContext(execution, workflow.variables),
+      result: stepResult.result,
+    });
+    return String(value);
+  }
+
+  /**
+   * A failure is handled when the step has fallbacks and all of them completed
+   */
+  private isFailureHandled(stepId: string, steps: WorkflowStep[], execution: WorkflowExecutionResult): boolean {
+    const fallbacks = steps.find(step => step.id === stepId)?.onFailure ?? [];
+    return fallbacks.length > 0 && fallbacks.every(fallbackId =>
+      execution.steps.some(result => result.stepId === fallbackId && result.status === 'completed')
+    );
+  }
+
+  /**
+   * Check that the steps named in dependsOn, onFailure and switch exist and that the steps can
+   * be ordered; returns the execution plan
+   */
+  private validateStepGraph(steps: WorkflowStep[]): WorkflowStep[][] {
+    const stepIds = new Set(steps.map(step => step.id));
+    for (const step of steps) {
+      const references: [string, string[]][] = [
+        ['dependsOn', step.dependsOn ?? []],
+        ['onFailure', step.onFailure ?? []],
+        ['switch', getSwitchTargets(step)],
+      ];
+      for (const [field, targets] of references) {
+        const unknown = targets.find(target => !stepIds.has(target));
+        if (unknown !== undefined) {
+          throw new Error(`Step '${step.id}' refers to unknown step '${unknown}' in ${field}`);
+        }
+      }
+    }
+    return this.buildExecutionPlan(steps);
+  }
+
   private buildExecutionPlan(steps: WorkflowStep[]): WorkflowStep[][] {
     const executed = new Set<string>();
     const inProgress = new Set<string>();
@@ -93,8 +578,7 @@ export class WorkflowOrchestrator {
         }
 
         // Check if all dependencies are satisfied
-        const dependenciesSatisfied = !step.dependsOn ||
-          step.dependsOn.every(depId => executed.has(depId));
+        const dependenciesSatisfied = this.getDependencies(step, steps).every(depId => executed.has(depId));
 
         if (dependenciesSatisfied) {
           currentBatch.push(step);
@@ -122,7 +606,8 @@ export class WorkflowOrchestrator {
   private async executeStep(
     step: WorkflowStep,
     workflow: WorkflowOrchestratorInput,
-    execution: WorkflowExecutionResult
+    execution: WorkflowExecutionResult,
+    signal: AbortSignal
   ): Promise<void> {
     const stepResult: WorkflowStepResult = {
       stepId: step.id,
@@ -130,119 +615,290 @@ export class WorkflowOrchestrator {
       serverName: step.serverName,
       toolName: step.toolName,
       startedAt: new Date().toISOString(),
-      dependencies: step.dependsOn,
+      dependencies: this.getDependencies(step, workflow.steps),
+      retryCount: 0,
+      attempts: [],
     };
 
     execution.steps.push(stepResult);
 
     try {
+      const skipReason = this.getSkipReason(step, workflow, execution);
+      if (skipReason) {
+        stepResult.status = 'skipped';
+        stepResult.skipReason = skipReason;
+        delete stepResult.startedAt;
+        delete stepResult.retryCount;
+        delete stepResult.attempts;
+        return;
+      }
+
       // Resolve parameters with variable substitution and output mapping
-      const resolvedParams = this.resolveParameters(step, execution.steps, workflow.variables);
+      const resolvedParams = this.resolveParameters(step, execution, workflow.variables);
 
-      // Execute the tool (this is a placeholder - in reality, this would call the MCP server)
-      const result = await this.callMCPServerTool(step.serverName, step.toolName, resolvedParams);
+      if (step.forEach) {
+        delete stepResult.retryCount;
+        delete stepResult.attempts;
+        stepResult.result = await this.executeIterations(step, resolvedParams, execution, signal);
+      } else {
+        stepResult.result = await this.callWithRetries(step, resolvedParams, stepResult, signal);
+      }
 
-      stepResult.status = 'completed';
-      stepResult.result = result;
-      stepResult.completedAt = new Date().toISOString();
-      stepResult.executionTime = stepResult.completedAt && stepResult.startedAt
-        ? new Date(stepResult.completedAt).getTime() - new Date(stepResult.startedAt).getTime()
-        : 0;
+      if (step.switch) {
+        stepResult.branch = this.selectBranch(step, stepResult, workflow, execution);
+      }
 
+      this.completeStepResult(stepResult);
     } catch (error) {
-      stepResult.status = 'failed';
-      stepResult.error = error instanceof Error ? error.message : 'Unknown error';
-      stepResult.completedAt = new Date().toISOString();
+      this.failStepResult(stepResult, error, signal);
+    }
+  }
+
+  /**
+   * Call the step's tool, retrying according to its retry policy; attempts are recorded on stepResult
+   */
+  private async callWithRetries(
+    step: WorkflowStep,
+    parameters: Record<string, any>,
+    stepResult: WorkflowStepResult,
+    signal: AbortSignal
+  ): Promise<any> {
+    const retryPolicy = resolveRetryPolicy(step);
 
-      // Handle retries if configured
-      if (step.retryOnFailure && (!step.maxRetries || (stepResult.retryCount || 0) < step.maxRetries)) {
-        stepResult.retryCount = (stepResult.retryCount || 0) + 1;
-        // In a real implementation, you'd retry the step here
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      const attempt: WorkflowStepAttempt = {
+        attempt: attemptNumber,
+        startedAt: new Date().toISOString(),
+      };
+      stepResult.attempts!.push(attempt);
+
+      try {
+        const result = await this.callMCPServerTool(step.serverName, step.toolName, parameters, {
+          timeout: step.timeout,
+          signal,
+        });
+        this.finishAttempt(attempt);
+        return result;
+      } catch (error) {
+        const errorType = classifyStepError(error);
+        this.finishAttempt(attempt, error, errorType);
+
+        const canRetry = !signal.aborted &&
+          attemptNumber <= retryPolicy.maxRetries &&
+          retryPolicy.retryOn.includes(errorType);
+        if (!canRetry) {
+          throw signal.aborted ? signal.reason : error;
+        }
+
+        attempt.retryDelay = computeRetryDelay(retryPolicy, attemptNumber);
+        stepResult.retryCount = attemptNumber;
+        await abortableDelay(attempt.retryDelay, signal);
       }
+    }
+  }
+
+  /**
+   * Run a forEach step once per item of its array parameter, at most `concurrency` at a time.
+   * Every iteration is recorded as its own step result; the results are gathered in item order.
+   */
+  private async executeIterations(
+    step: WorkflowStep,
+    parameters: Record<string, any>,
+    execution: WorkflowExecutionResult,
+    signal: AbortSignal
+  ): Promise<any[]> {
+    const { parameter, as = parameter, concurrency = DEFAULT_FOREACH_CONCURRENCY } = step.forEach!;
+    const items = parameters[parameter];
+    if (!Array.isArray(items)) {
+      throw new Error(`forEach parameter '${parameter}' of step '${step.id}' is not an array`);
+    }
 
-      // If failFast is enabled, this would stop the entire workflow
-      if (workflow.failFast) {
-        throw error;
+    const { [parameter]: _items, ...baseParameters } = parameters;
+    const results: any[] = new Array(items.length).fill(null);
+    let nextIndex = 0;
+    let failures = 0;
+
+    const runIterations = async () => {
+      while (nextIndex < items.length && !signal.aborted) {
+        const index = nextIndex++;
+        const iterationResult: WorkflowStepResult = {
+          stepId: `${step.id}[${index}]`,
+          parentStepId: step.id,
+          iteration: index,
+          status: 'running',
+          serverName: step.serverName,
+          toolName: step.toolName,
+          startedAt: new Date().toISOString(),
+          retryCount: 0,
+          attempts: [],
+        };
+        execution.steps.push(iterationResult);
+
+        try {
+          iterationResult.result = await this.callWithRetries(step, { ...baseParameters, [as]: items[index] }, iterationResult, signal);
+          results[index] = iterationResult.result;
+          this.completeStepResult(iterationResult);
+        } catch (error) {
+          failures++;
+          this.failStepResult(iterationResult, error, signal);
+        }
       }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workers }, runIterations));
+
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+    if (failures > 0) {
+      throw new Error(`${failures} of ${items.length} iterations of step '${step.id}' failed`);
     }
+    return results;
   }
 
+  private completeStepResult(stepResult: WorkflowStepResult): void {
+    stepResult.status = 'completed';
+    stepResult.completedAt = new Date().toISOString();
+    stepResult.executionTime = new Date(stepResult.completedAt).getTime() - new Date(stepResult.startedAt!).getTime();
+  }
+
+  /**
+   * Record a step that failed; a step stopped by cancelling or timing out the workflow did not
+   * fail on its own and is recorded as skipped, with the reason
+   */
+  private failStepResult(stepResult: WorkflowStepResult, error: unknown, signal: AbortSignal): void {
+    if (signal.aborted) {
+      stepResult.status = 'skipped';
+      stepResult.skipReason = (signal.reason as WorkflowAbortError).message;
+    } else {
+      stepResult.status = 'failed';
+      stepResult.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    stepResult.completedAt = new Date().toISOString();
+    stepResult.executionTime = new Date(stepResult.completedAt).getTime() - new Date(stepResult.startedAt!).getTime();
+  }
+
+  private finishAttempt(attempt: WorkflowStepAttempt, error?: unknown, errorType?: WorkflowErrorType): void {
+    attempt.completedAt = new Date().toISOString();
+    attempt.executionTime = new Date(attempt.completedAt).getTime() - new Date(attempt.startedAt).getTime();
+    if (error !== undefined) {
+      attempt.error = error instanceof Error ? error.message : String(error);
+      attempt.errorType = errorType;
+    }
+  }
+
+  /**
+   * Resolve step parameters: {{expression}} templates anywhere in the parameters,
+   * top-level `$name` variables, then outputMapping paths. Unresolved references throw.
+   */
   private resolveParameters(
     step: WorkflowStep,
-    completedSteps: WorkflowStepResult[],
+    execution: WorkflowExecutionResult,
     globalVariables?: Record<string, any>
   ): Record<string, any> {
-    const resolved = { ...step.parameters };
-
-    // Substitute global variables
-    if (globalVariables) {
-      Object.keys(resolved).forEach(key => {
-        if (typeof resolved[key] === 'string' && resolved[key].startsWith('$')) {
-          const varName = resolved[key].substring(1);
-          if (globalVariables[varName] !== undefined) {
-            resolved[key] = globalVariables[varName];
-          }
-        }
-      });
-    }
+    const context = this.buildExpressionContext(execution, globalVariables);
+    const resolved: Record<string, any> = renderTemplate(step.parameters, context, 'parameters');
+    this.substituteVariables(step, resolved, globalVariables);
 
     // Apply output mapping from dependent steps
     if (step.outputMapping) {
       Object.entries(step.outputMapping).forEach(([paramName, outputPath]) => {
-        const [stepId, outputKey] = outputPath.split('.');
-        const sourceStep = completedSteps.find(s => s.stepId === stepId);
+        const separator = outputPath.indexOf('.');
+        const stepId = separator === -1 ? outputPath : outputPath.slice(0, separator);
+        const sourceStep = execution.steps.find(s => s.stepId === stepId);
 
-        if (sourceStep && sourceStep.result && sourceStep.result[outputKey] !== undefined) {
-          resolved[paramName] = sourceStep.result[outputKey];
+        if (!sourceStep || sourceStep.status !== 'completed') {
+          throw new Error(`outputMapping.${paramName} refers to step '${stepId}', which has not completed`);
         }
+
+        const value = separator === -1 ? sourceStep.result : readPath(sourceStep.result, outputPath.slice(separator + 1));
+        if (value === undefined) {
+          throw new Error(`Unresolved reference in outputMapping.${paramName}: ${outputPath}`);
+        }
+        resolved[paramName] = value;
       });
     }
 
     return resolved;
   }
 
+  /**
+   * Resolve step parameters before any step has run, for dry runs. References to step
+   * results and outputMapping entries are listed in `unresolved` instead of failing.
+   */
+  private previewParameters(
+    step: WorkflowStep,
+    globalVariables: Record<string, any> | undefined,
+    unresolved: string[]
+  ): Record<string, any> {
+    const context: ExpressionContext = { steps: {}, variables: globalVariables ?? {} };
+    const resolved: Record<string, any> = renderTemplatePartially(step.parameters, context, 'parameters', unresolved);
+    this.substituteVariables(step, resolved, globalVariables);
+
+    Object.entries(step.outputMapping ?? {}).forEach(([paramName, outputPath]) => {
+      unresolved.push(`outputMapping.${paramName} is read from ${outputPath} when the workflow runs`);
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Substitute global variables into top-level parameters written as `$name`
+   */
+  private substituteVariables(step: WorkflowStep, resolved: Record<string, any>, globalVariables?: Record<string, any>): void {
+    if (!globalVariables) {
+      return;
+    }
+    Object.keys(step.parameters).forEach(key => {
+      const value = step.parameters[key];
+      if (typeof value === 'string' && value.startsWith('$')) {
+        const varName = value.substring(1);
+        if (globalVariables[varName] !== undefined) {
+          resolved[key] = globalVariables[varName];
+        }
+      }
+    });
+  }
+
   private async callMCPServerTool(
     serverName: string,
     toolName: string,
-    parameters: Record<string, any>
+    parameters: Record<string, any>,
+    options: ToolCallOptions
   ): Promise<any> {
-    // This is a placeholder implementation
-    // In a real implementation, this would:
-    // 1. Find the MCP server by name
-    // 2. Establish connection to the server
-    // 3. Call the tool with the provided parameters
-    // 4. Return the result
-
-    console.log(`Executing ${toolName} on ${serverName} with parameters:`, parameters);
-
-    // Simulate execution time
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
-
-    // Mock response based on tool type
-    if (toolName === 'google_search') {
-      return {
-        searchInfo: { totalResults: '1000000', searchTime: 0.5 },
-        items: [
-          {
-            title: `Search result for ${parameters.q}`,
-            link: `https://example.com/${parameters.q.replace(/\s+/g, '-')}`,
-            snippet: `This is a search result snippet for ${parameters.q}...`,
-          }
-        ]
-      };
+    const serverInfo = this.discovery.getServers().find(server => server.name === serverName);
+    if (!serverInfo) {
+      throw new Error(`MCP server '${serverName}' was not discovered`);
     }
 
-    if (toolName === 'initialize_memory') {
-      return { message: 'Memory system initialized successfully' };
-    }
-
-    // Generic success response
-    return {
-      success: true,
-      message: `${toolName} executed successfully on ${serverName}`,
-      parameters: parameters,
-      timestamp: new Date().toISOString(),
+    // A per-call signal keeps listeners off the long-lived workflow signal;
+    // aborting it makes the client send notifications/cancelled downstream
+    const callController = new AbortController();
+    const forwardAbort = () => callController.abort(options.signal?.reason);
+    options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+    // Calls cut short by cancelling or timing out the workflow say nothing about the tool
+    const startedAt = Date.now();
+    const recordCall = (success: boolean) => {
+      if (!options.signal?.aborted) {
+        this.toolStats?.recordCall(serverName, toolName, Date.now() - startedAt, success);
+      }
     };
+
+    try {
+      const result = await this.sessions.callTool(serverInfo, toolName, parameters, {
+        timeout: options.timeout,
+        signal: callController.signal,
+      });
+      recordCall(true);
+      return result;
+    } catch (error) {
+      recordCall(false);
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', forwardAbort);
+    }
   }
 
   private aggregateResults(steps: WorkflowStepResult[]): any {
@@ -260,21 +916,35 @@ export class WorkflowOrchestrator {
       totalSteps: steps.length,
       completedSteps: steps.filter(s => s.status === 'completed').length,
       failedSteps: steps.filter(s => s.status === 'failed').length,
+      skippedSteps: steps.filter(s => s.status === 'skipped').length,
       totalExecutionTime: steps.reduce((sum, s) => sum + (s.executionTime || 0), 0),
     };
 
     return aggregated;
   }
 
-  getWorkflowStatus(workflowId: string): WorkflowExecutionResult | null {
-    return this.activeWorkflows.get(workflowId) || null;
+  getWorkflowStatus(runId: string): WorkflowExecutionResult | null {
+    return this.activeWorkflows.get(runId) || null;
+  }
+
+  /**
+   * A run from memory, or from the history store once it is no longer kept in memory
+   */
+  async findWorkflowRun(runId: string): Promise<WorkflowExecutionResult | null> {
+    return this.activeWorkflows.get(runId) ?? (await this.history?.getRun(runId)) ?? null;
   }
 
-  cancelWorkflow(workflowId: string): boolean {
-    const workflow = this.activeWorkflows.get(workflowId);
-    if (workflow && workflow.status === 'running') {
-      workflow.status = 'cancelled';
-      workflow.completedAt = new Date().toISOString();
+  /**
+   * Cancel a running workflow and wait until its in-flight steps have stopped,
+   * so the run holds its final status when this resolves
+   */
+  async cancelWorkflow(runId: string): Promise<boolean> {
+    const workflow = this.activeWorkflows.get(runId);
+    const controller = this.runControllers.get(runId);
+    if (workflow && workflow.status === 'running' && controller) {
+      // runWorkflow marks the run cancelled once in-flight steps have stopped
+      controller.abort(new WorkflowAbortError('cancelled', 'Workflow cancelled'));
+      await this.runCompletions.get(runId);
       return true;
     }
     return false;
@@ -286,4 +956,37 @@ export class WorkflowOrchestrator {
       return workflow && workflow.status === 'running';
     });
   }
+
+  /**
+   * Runs kept in memory, most recently started first
+   */
+  listWorkflowRuns(status?: WorkflowExecutionResult['status']): WorkflowExecutionResult[] {
+    return Array.from(this.activeWorkflows.values())
+      .filter(run => !status || run.status === status)
+      .reverse();
+  }
+}
+
+/**
+ * Steps started by a switch, for the given branch value or for all cases
+ */
+function getSwitchTargets(step: WorkflowStep, branch?: string): string[] {
+  if (!step.switch) {
+    return [];
+  }
+  if (branch !== undefined) {
+    return (Object.prototype.hasOwnProperty.call(step.switch.cases, branch)
+      ? step.switch.cases[branch]
+      : step.switch.default) ?? [];
+  }
+  return [...Object.values(step.switch.cases).flat(), ...(step.switch.default ?? [])];
+}
+
+/**
+ * Number of steps that completed, failed or were skipped
+ */
+export function countFinishedSteps(execution: WorkflowExecutionResult): number {
+  return execution.steps.filter(step =>
+    step.parentStepId === undefined && step.status !== 'running' && step.status !== 'pending'
+  ).length;
 }
@@ -0,0 +1,68 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { WorkflowErrorType, WorkflowRetryPolicy, WorkflowStep } from '../types.js';
+
+export type ResolvedRetryPolicy = Required<Omit<WorkflowRetryPolicy, 'retryOn'>> & {
+  maxRetries: number;
+  retryOn: WorkflowErrorType[];
+};
+
+const DEFAULT_MAX_RETRIES = 3;
+
+const DEFAULT_RETRY_POLICY: Omit<ResolvedRetryPolicy, 'maxRetries'> = {
+  initialDelay: 1000,
+  backoffMultiplier: 2,
+  maxDelay: 30000,
+  jitter: 0.2,
+  retryOn: ['timeout', 'connection', 'tool_error', 'unknown'],
+};
+
+/**
+ * Resolve the retry policy of a step; steps without retryOnFailure are never retried
+ */
+export function resolveRetryPolicy(step: WorkflowStep): ResolvedRetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...step.retryPolicy,
+    retryOn: step.retryPolicy?.retryOn ?? DEFAULT_RETRY_POLICY.retryOn,
+    maxRetries: step.retryOnFailure ? Math.max(0, step.maxRetries ?? DEFAULT_MAX_RETRIES) : 0,
+  };
+}
+
+/**
+ * Exponential backoff for the given retry (1-based), with random jitter
+ */
+export function computeRetryDelay(policy: ResolvedRetryPolicy, retry: number): number {
+  const baseDelay = Math.min(
+    policy.initialDelay * Math.pow(policy.backoffMultiplier, retry - 1),
+    policy.maxDelay
+  );
+  const variation = baseDelay * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(baseDelay + variation));
+}
+
+/**
+ * Classify a step error so retry policies can match on it
+ */
+export function classifyStepError(error: unknown): WorkflowErrorType {
+  for (let current: unknown = error; current instanceof Error; current = current.cause) {
+    if (current instanceof McpError) {
+      if (current.code === ErrorCode.RequestTimeout) return 'timeout';
+      if (current.code === ErrorCode.ConnectionClosed) return 'connection';
+    }
+
+    const code = (current as NodeJS.ErrnoException).code;
+    if (code === 'ENOENT' || code === 'EPIPE' || code === 'ECONNREFUSED' || code === 'ECONNRESET') {
+      return 'connection';
+    }
+
+    const message = current.message.toLowerCase();
+    if (message.includes('was not discovered')) return 'server_not_found';
+    if (message.includes('returned an error')) return 'tool_error';
+    if (message.includes('timed out') || message.includes('timeout')) return 'timeout';
+    if (message.includes('failed to connect') || message.includes('closed the connection') || message.includes('connection closed')) {
+      return 'connection';
+    }
+  }
+
+  return 'unknown';
+}
@@ -1,4 +1,4 @@
-import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
 
 export const chainingResources: Resource[] = [
   {
@@ -79,4 +79,31 @@ export const chainingResources: Resource[] = [
     description: 'Returns a JSON overview of available tool chaining resources organized by category and complexity level, providing insights into the tool chaining capabilities',
     mimeType: 'application/json',
   },
+  {
+    uri: 'chaining://memory/graph',
+    name: 'Knowledge Graph',
+    description: 'Returns the full persistent knowledge graph as JSON, including all entities, their observations, and the relations between them',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'chaining://health',
+    name: 'Server Health',
+    description: 'Returns a JSON object with the health status of the chaining server, its reliability metrics, and the state of downstream MCP server sessions',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'chaining://optimizer/feedback',
+    name: 'Route Optimizer Learning State',
+    description: 'Returns a JSON summary of the feedback submitted for suggested routes, the routes the optimizer learned from, and its current adaptive weights',
+    mimeType: 'application/json',
+  },
+];
+
+export const chainingResourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'chaining://workflows/definitions/{id}',
+    name: 'Saved Workflow Definition',
+    description: 'Returns a saved workflow definition from the workflow library as JSON, at its latest version',
+    mimeType: 'application/json',
+  },
 ];
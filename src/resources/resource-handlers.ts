@@ -1,8 +1,16 @@
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
 import { MCPServerDiscovery } from '../core/discovery.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
 import { AwesomeCopilotIntegration } from '../integrations/awesome-copilot-integration.js';
 import { SequentialThinkingManager } from '../managers/sequential-thinking-manager.js';
-import { WorkflowOrchestrator } from '../managers/workflow-orchestrator.js';
+import { WorkflowOrchestrator, countFinishedSteps } from '../managers/workflow-orchestrator.js';
+import { KnowledgeGraphManager } from '../managers/memory-manager.js';
+import { ReliabilityManager } from '../managers/reliability-manager.js';
+import { ServerSessionManager } from '../core/session-manager.js';
+import { WorkflowLibrary } from '../managers/workflow-library.js';
+import { SmartRouteOptimizer } from '../core/optimizer.js';
+
+const WORKFLOW_DEFINITION_URI_PREFIX = 'chaining://workflows/definitions/';
 
 export class ResourceHandlers {
   constructor(
@@ -10,20 +18,56 @@ export class ResourceHandlers {
     private promptRegistry: PromptRegistry,
     private awesomeCopilotIntegration: AwesomeCopilotIntegration,
     private sequentialThinkingManager: SequentialThinkingManager,
-    private workflowOrchestrator: WorkflowOrchestrator
+    private workflowOrchestrator: WorkflowOrchestrator,
+    private knowledgeGraphManager: KnowledgeGraphManager,
+    private reliabilityManager: ReliabilityManager,
+    private sessions: ServerSessionManager,
+    private workflowLibrary: WorkflowLibrary,
+    private optimizer: SmartRouteOptimizer
   ) {}
 
+  /**
+   * One resource per saved workflow definition
+   */
+  async listWorkflowDefinitionResources(): Promise<Resource[]> {
+    const workflows = await this.workflowLibrary.listWorkflows();
+    return workflows.map(workflow => ({
+      uri: `${WORKFLOW_DEFINITION_URI_PREFIX}${workflow.workflowId}`,
+      name: `Workflow: ${workflow.name}`,
+      description: workflow.description ?? `Saved workflow definition '${workflow.workflowId}' (version ${workflow.version})`,
+      mimeType: 'application/json',
+    }));
+  }
+
   async handleReadResource(uri: string): Promise<any> {
+    if (uri.startsWith(WORKFLOW_DEFINITION_URI_PREFIX)) {
+      return this.workflowLibrary.getWorkflow(decodeURIComponent(uri.slice(WORKFLOW_DEFINITION_URI_PREFIX.length)));
+    }
+
     switch (uri) {
       case 'chaining://servers':
         const servers = this.discovery.getServers();
         return {
           servers: servers.map(server => ({
             name: server.name || 'Unknown',
+            type: server.type,
             command: server.command,
             args: server.args,
             env: server.env,
+            url: server.url,
             capabilities: server.capabilities,
+            discovery: this.discovery.getServerStatus(server.name),
+            resources: this.discovery.getResources(server.name).map(resource => ({
+              uri: resource.uri,
+              name: resource.name,
+              description: resource.description,
+              mimeType: resource.mimeType,
+            })),
+            prompts: this.discovery.getPrompts(server.name).map(prompt => ({
+              name: prompt.name,
+              description: prompt.description,
+              arguments: prompt.arguments,
+            })),
           })),
           total: servers.length,
         };
@@ -123,12 +167,23 @@ export class ResourceHandlers {
         };
 
       case 'chaining://workflows/status':
-        // Simplified for modular version
+        const workflowRuns = this.workflowOrchestrator.listWorkflowRuns();
         return {
-          activeWorkflows: 0,
-          completedWorkflows: 0,
-          failedWorkflows: 0,
-          total: 0,
+          activeWorkflows: workflowRuns.filter(run => run.status === 'running').length,
+          completedWorkflows: workflowRuns.filter(run => run.status === 'completed').length,
+          failedWorkflows: workflowRuns.filter(run => run.status === 'failed').length,
+          cancelledWorkflows: workflowRuns.filter(run => run.status === 'cancelled').length,
+          total: workflowRuns.length,
+          runs: workflowRuns.map(run => ({
+            runId: run.runId,
+            workflowId: run.workflowId,
+            name: run.name,
+            status: run.status,
+            finishedSteps: countFinishedSteps(run),
+            totalSteps: run.totalSteps,
+            startedAt: run.startedAt,
+            completedAt: run.completedAt,
+          })),
         };
 
       case 'chaining://tool-chains':
@@ -156,6 +211,41 @@ export class ResourceHandlers {
           categories: ['analysis', 'implementation', 'debugging', 'orchestration', 'ci-cd'],
         };
 
+      case 'chaining://memory/graph':
+        const graph = await this.knowledgeGraphManager.readGraph();
+        return {
+          entities: graph.entities,
+          relations: graph.relations,
+          totalEntities: graph.entities.length,
+          totalRelations: graph.relations.length,
+          entityTypes: [...new Set(graph.entities.map(e => e.entityType))],
+        };
+
+      case 'chaining://health':
+        const health = this.reliabilityManager.healthCheck();
+        const reliabilityMetrics = this.reliabilityManager.getMetrics();
+        return {
+          status: health.status,
+          message: health.message,
+          metrics: {
+            totalRequests: reliabilityMetrics.totalRequests,
+            successfulRequests: reliabilityMetrics.successfulRequests,
+            failedRequests: reliabilityMetrics.failedRequests,
+            errorRate: reliabilityMetrics.errorRate,
+            averageResponseTime: reliabilityMetrics.averageResponseTime,
+            uptime: reliabilityMetrics.uptimeFormatted,
+            lastError: reliabilityMetrics.lastError,
+          },
+          sessions: this.sessions.getSessionStatus(),
+          lastUpdated: new Date().toISOString(),
+        };
+
+      case 'chaining://optimizer/feedback':
+        return {
+          ...this.optimizer.getLearningSummary(),
+          lastUpdated: new Date().toISOString(),
+        };
+
       default:
         throw new Error(`Unknown resource: ${uri}`);
     }
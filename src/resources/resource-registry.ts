@@ -1,2 +1,2 @@
-export { chainingResources } from './resource-definitions.js';
+export { chainingResources, chainingResourceTemplates } from './resource-definitions.js';
 export { ResourceHandlers } from './resource-handlers.js';
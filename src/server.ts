@@ -5,10 +5,14 @@ import {
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  ListResourceTemplatesRequestSchema,
   InitializeRequestSchema,
+  Resource,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { MCPServerDiscovery } from './core/discovery.js';
+import { HttpServerOptions, StreamableHttpServer } from './core/http-server.js';
+import { ServerSessionManager } from './core/session-manager.js';
 import { SmartRouteOptimizer } from './core/optimizer.js';
 import { SequentialThinkingIntegration } from './integrations/sequential-integration.js';
 import { SequentialThinkingManager } from './managers/sequential-thinking-manager.js';
@@ -17,14 +21,27 @@ import { PromptRegistry } from './prompts/prompt-registry.js';
 import { AwesomeCopilotIntegration } from './integrations/awesome-copilot-integration.js';
 import { BrainstormingManager } from './managers/brainstorming-manager.js';
 import { WorkflowOrchestrator } from './managers/workflow-orchestrator.js';
+import { KnowledgeGraphManager } from './managers/memory-manager.js';
+import { ReliabilityManager } from './managers/reliability-manager.js';
+import { WorkflowLibrary } from './managers/workflow-library.js';
+import { WorkflowHistoryManager } from './managers/workflow-history.js';
+import { ToolStatsManager } from './managers/tool-stats.js';
+import { OptimizerStateStorage } from './storage/optimizer-state-storage.js';
+import { defaultToolRetryConfig, toolRetryPolicies } from './config/retry-config.js';
 
 import { allTools } from './tools/tool-registry.js';
-import { chainingResources } from './resources/resource-definitions.js';
+import { chainingResources, chainingResourceTemplates } from './resources/resource-definitions.js';
 import { ResourceHandlers } from './resources/resource-handlers.js';
-import { RequestHandlers } from './handlers/request-handlers.js';
+import { RequestHandlers, ToolCallContext } from './handlers/request-handlers.js';
+
+export interface StartOptions {
+  http?: HttpServerOptions; // serve over Streamable HTTP instead of stdio
+}
 
 export class ChainingMCPServer {
-  private server: Server;
+  private servers = new Set<Server>(); // one per connected client
+  private httpServer: StreamableHttpServer | null = null;
+  private sessionManager: ServerSessionManager;
   private discovery: MCPServerDiscovery;
   private optimizer: SmartRouteOptimizer;
   private sequentialIntegration: SequentialThinkingIntegration;
@@ -34,21 +51,33 @@ export class ChainingMCPServer {
   private awesomeCopilotIntegration: AwesomeCopilotIntegration;
   private brainstormingManager: BrainstormingManager;
   private workflowOrchestrator: WorkflowOrchestrator;
+  private knowledgeGraphManager: KnowledgeGraphManager;
+  private reliabilityManager: ReliabilityManager;
+  private workflowLibrary: WorkflowLibrary;
+  private workflowHistory: WorkflowHistoryManager;
+  private toolStats: ToolStatsManager;
   private resourceHandlers: ResourceHandlers;
   private requestHandlers: RequestHandlers;
   private isInitialized: boolean = false;
+  private initializing: Promise<void> | null = null;
 
   constructor() {
     // Initialize core services
-    this.discovery = new MCPServerDiscovery();
-    this.optimizer = new SmartRouteOptimizer();
+    this.sessionManager = new ServerSessionManager();
+    this.discovery = new MCPServerDiscovery(this.sessionManager);
+    this.toolStats = new ToolStatsManager();
+    this.optimizer = new SmartRouteOptimizer([], this.toolStats, new OptimizerStateStorage());
     this.sequentialIntegration = new SequentialThinkingIntegration();
     this.sequentialThinkingManager = new SequentialThinkingManager();
     this.timeManager = new TimeManager();
     this.promptRegistry = new PromptRegistry();
     this.awesomeCopilotIntegration = new AwesomeCopilotIntegration();
     this.brainstormingManager = new BrainstormingManager();
-    this.workflowOrchestrator = new WorkflowOrchestrator();
+    this.workflowHistory = new WorkflowHistoryManager();
+    this.workflowOrchestrator = new WorkflowOrchestrator(this.discovery, this.sessionManager, this.workflowHistory, this.toolStats);
+    this.knowledgeGraphManager = new KnowledgeGraphManager();
+    this.reliabilityManager = new ReliabilityManager(defaultToolRetryConfig, toolRetryPolicies);
+    this.workflowLibrary = new WorkflowLibrary();
 
     // Initialize handlers
     this.resourceHandlers = new ResourceHandlers(
@@ -56,7 +85,12 @@ export class ChainingMCPServer {
       this.promptRegistry,
       this.awesomeCopilotIntegration,
       this.sequentialThinkingManager,
-      this.workflowOrchestrator
+      this.workflowOrchestrator,
+      this.knowledgeGraphManager,
+      this.reliabilityManager,
+      this.sessionManager,
+      this.workflowLibrary,
+      this.optimizer
     );
 
     this.requestHandlers = new RequestHandlers(
@@ -68,29 +102,44 @@ export class ChainingMCPServer {
       this.promptRegistry,
       this.awesomeCopilotIntegration,
       this.brainstormingManager,
-      this.workflowOrchestrator
+      this.workflowOrchestrator,
+      this.sessionManager,
+      this.knowledgeGraphManager,
+      this.reliabilityManager,
+      this.workflowLibrary,
+      this.workflowHistory,
+      this.toolStats
     );
+  }
 
-    // Initialize MCP server
-    this.server = new Server(
+  /**
+   * Create an MCP server for one client; every client shares the services above
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'chaining-mcp-server',
         version: '1.0.0',
       },
       {
         capabilities: {
-          tools: {},
-          resources: {},
+          tools: { listChanged: true },
+          resources: { listChanged: true },
         },
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+    this.servers.add(server);
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Initialize handler
-    this.server.setRequestHandler(InitializeRequestSchema, async (request) => {
+    server.setRequestHandler(InitializeRequestSchema, async (request) => {
       const { protocolVersion, capabilities, clientInfo } = request.params;
 
       console.error(`Initializing chaining-mcp-server with protocol version ${protocolVersion}`);
@@ -102,7 +151,9 @@ export class ChainingMCPServer {
           tools: {
             listChanged: true,
           },
-          resources: {},
+          resources: {
+            listChanged: true,
+          },
         },
         serverInfo: {
           name: 'chaining-mcp-server',
@@ -113,20 +164,32 @@ export class ChainingMCPServer {
     });
 
     // List tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: allTools,
       };
     });
 
     // Call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+
+      const context: ToolCallContext = {
+        sendProgress: progressToken === undefined ? undefined : (progress, total, message) =>
+          extra.sendNotification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, total, message },
+          }),
+      };
 
       try {
         await this.ensureInitialized();
 
-        const result = await this.requestHandlers.handleToolCall(name, args);
+        const result = await this.reliabilityManager.executeWithRetry(
+          () => this.requestHandlers.handleToolCall(name, args, context),
+          name
+        );
         return {
           content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
         };
@@ -145,14 +208,28 @@ export class ChainingMCPServer {
     });
 
     // List resources handler
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      let workflowDefinitions: Resource[] = [];
+      try {
+        workflowDefinitions = await this.resourceHandlers.listWorkflowDefinitionResources();
+      } catch (error) {
+        console.error('Failed to list saved workflow definitions:', error);
+      }
+
       return {
-        resources: chainingResources,
+        resources: [...chainingResources, ...workflowDefinitions],
+      };
+    });
+
+    // List resource templates handler
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: chainingResourceTemplates,
       };
     });
 
     // Read resource handler
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
       try {
@@ -179,8 +256,7 @@ export class ChainingMCPServer {
    * Format error messages with enhanced information and suggestions
    */
   private formatErrorMessage(error: unknown, toolName: string, args: any): string {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return `Tool execution failed for '${toolName}': ${errorMessage}`;
+    return this.reliabilityManager.formatEnhancedError(error, toolName, args);
   }
 
   /**
@@ -188,33 +264,91 @@ export class ChainingMCPServer {
    */
   private async ensureInitialized(): Promise<void> {
     if (!this.isInitialized) {
-      try {
-        console.error('Initializing chaining MCP server...');
+      // Concurrent first requests share one initialization
+      this.initializing ??= this.initialize().finally(() => {
+        this.initializing = null;
+      });
+      await this.initializing;
+    }
+  }
+
+  /**
+   * Discover servers and tools, and hand the tools to the optimizer
+   */
+  private async initialize(): Promise<void> {
+    try {
+      console.error('Initializing chaining MCP server...');
+
+      await this.discovery.discoverServers();
+      console.error(`Discovered ${this.discovery.getServers().length} MCP servers`);
 
-        await this.discovery.discoverServers();
-        console.error(`Discovered ${this.discovery.getServers().length} MCP servers`);
+      await this.discovery.analyzeTools();
+      console.error(`Analyzed ${this.discovery.getTools().length} tools`);
 
-        await this.discovery.analyzeTools();
-        console.error(`Analyzed ${this.discovery.getTools().length} tools`);
+      await this.toolStats.load();
+      this.optimizer.setTools(this.discovery.getTools());
+      await this.optimizer.loadState();
+      this.sequentialIntegration.setAvailableTools(this.discovery.getTools());
 
-        this.optimizer.setTools(this.discovery.getTools());
-        this.sequentialIntegration.setAvailableTools(this.discovery.getTools());
+      // Servers added, removed or changed later are picked up without a restart
+      this.discovery.onchange = serverNames => this.handleDiscoveryChange(serverNames);
+      this.discovery.watch();
 
-        this.isInitialized = true;
-        console.error('Chaining MCP server initialization completed successfully');
+      this.isInitialized = true;
+      console.error('Chaining MCP server initialization completed successfully');
+    } catch (error) {
+      console.error('Failed to initialize chaining MCP server:', error);
+      // Don't throw error - allow server to continue with limited functionality
+    }
+  }
+
+  /**
+   * Hand re-discovered tools to the optimizer and tell the clients that the tools
+   * and resources they read may have changed
+   */
+  private async handleDiscoveryChange(serverNames: string[]): Promise<void> {
+    const tools = this.discovery.getTools();
+    this.optimizer.setTools(tools);
+    this.sequentialIntegration.setAvailableTools(tools);
+    console.error(`Re-discovered ${serverNames.join(', ')}; ${tools.length} tools available`);
+
+    await Promise.all([...this.servers].map(async server => {
+      try {
+        await server.sendToolListChanged();
+        await server.sendResourceListChanged();
       } catch (error) {
-        console.error('Failed to initialize chaining MCP server:', error);
-        // Don't throw error - allow server to continue with limited functionality
+        console.error('Failed to send list_changed notifications:', error instanceof Error ? error.message : error);
       }
-    }
+    }));
   }
 
   /**
-   * Start the server
+   * Start the server on stdio or, with `http` options, over Streamable HTTP where
+   * several clients share one set of discovered servers, workflows and learned state
    */
-  async start(): Promise<void> {
+  async start(options: StartOptions = {}): Promise<void> {
+    if (options.http) {
+      this.httpServer = new StreamableHttpServer(() => this.createServer(), options.http);
+      const url = await this.httpServer.listen();
+      console.error(`Chaining MCP Server started and listening on ${url}${options.http.token ? ' (bearer token required)' : ''}`);
+      return;
+    }
+
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.createServer().connect(transport);
     console.error('Chaining MCP Server started and running on stdio');
   }
+
+  /**
+   * Stop the server and shut down downstream MCP servers
+   */
+  async stop(): Promise<void> {
+    this.discovery.unwatch();
+    await this.sessionManager.closeAll();
+    await this.knowledgeGraphManager.close();
+    await this.workflowHistory.close();
+    await this.toolStats.close();
+    await this.httpServer?.close();
+    await Promise.all([...this.servers].map(server => server.close()));
+  }
 }
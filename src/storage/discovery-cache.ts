@@ -0,0 +1,42 @@
+import { Prompt, Resource, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { MCPServerInfo } from '../types.js';
+import { JsonFileStore } from './json-file-store.js';
+import { resolveDataPath } from '../utils/data-path.js';
+
+// JSON file holding the results of earlier discovery runs
+const DISCOVERY_CACHE_PATH = resolveDataPath(process.env.DISCOVERY_CACHE_PATH || 'discovery-cache.json');
+
+/**
+ * What one server listed when it was last queried
+ */
+export interface CachedServerDiscovery {
+  serverName: string;
+  cachedAt: string;
+  tools: Tool[];
+  resources: Resource[];
+  prompts: Prompt[];
+  capabilities?: MCPServerInfo['capabilities'];
+}
+
+/**
+ * Discovery results stored as one JSON file, keyed by a hash of each server's command, args
+ * and env so a changed server configuration never reads another configuration's tools
+ */
+export class DiscoveryCacheStorage {
+  private store: JsonFileStore<Record<string, CachedServerDiscovery>>;
+
+  constructor(filePath: string = DISCOVERY_CACHE_PATH) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  /**
+   * The cached entries by key, or none when nothing was cached yet
+   */
+  async load(): Promise<Record<string, CachedServerDiscovery>> {
+    return (await this.store.load()) ?? {};
+  }
+
+  async save(entries: Record<string, CachedServerDiscovery>): Promise<void> {
+    return this.store.save(entries);
+  }
+}
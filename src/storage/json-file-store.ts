@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A value kept as one JSON file. Writes are serialized and atomic: each goes to a temporary
+ * file that then replaces the old one, so a crash never leaves a half-written file.
+ */
+export class JsonFileStore<T> {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * The saved value, or null when nothing was saved yet
+   */
+  async load(): Promise<T | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    return JSON.parse(data);
+  }
+
+  /**
+   * Replace the saved value
+   */
+  async save(value: T): Promise<void> {
+    const write = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(value, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+}
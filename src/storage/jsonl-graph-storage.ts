@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import { Entity, Relation } from '../types.js';
+import {
+  KnowledgeGraph,
+  KnowledgeGraphStorage,
+  ObservationAddition,
+  ObservationDeletion,
+  parseJsonlGraph,
+  filterGraph,
+  isSameRelation,
+} from './knowledge-graph-storage.js';
+
+/**
+ * Stores the whole graph in a single JSONL file that is rewritten on every mutation.
+ * Mutations are serialized so concurrent calls cannot overwrite each other.
+ */
+export class JsonlGraphStorage implements KnowledgeGraphStorage {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  private async loadGraph(): Promise<KnowledgeGraph> {
+    try {
+      const data = await fs.readFile(this.filePath, "utf-8");
+      return parseJsonlGraph(data);
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && (error as any).code === "ENOENT") {
+        return { entities: [], relations: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    const lines = [
+      ...graph.entities.map(e => JSON.stringify({ type: "entity", ...e })),
+      ...graph.relations.map(r => JSON.stringify({ type: "relation", ...r })),
+    ];
+    await fs.writeFile(this.filePath, lines.join("\n"));
+  }
+
+  /**
+   * Run a read-modify-write cycle after all previously queued ones
+   */
+  private mutate<T>(operation: (graph: KnowledgeGraph) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const graph = await this.loadGraph();
+      const result = operation(graph);
+      await this.saveGraph(graph);
+      return result;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async createEntities(entities: Entity[]): Promise<Entity[]> {
+    return this.mutate(graph => {
+      const newEntities = entities.filter(e => !graph.entities.some(existingEntity => existingEntity.name === e.name));
+      graph.entities.push(...newEntities);
+      return newEntities;
+    });
+  }
+
+  async createRelations(relations: Relation[]): Promise<Relation[]> {
+    return this.mutate(graph => {
+      const newRelations = relations.filter(r => !graph.relations.some(existingRelation => isSameRelation(existingRelation, r)));
+      graph.relations.push(...newRelations);
+      return newRelations;
+    });
+  }
+
+  async addObservations(observations: ObservationAddition[]): Promise<{ entityName: string; addedObservations: string[] }[]> {
+    return this.mutate(graph => observations.map(o => {
+      const entity = graph.entities.find(e => e.name === o.entityName);
+      if (!entity) {
+        throw new Error(`Entity with name ${o.entityName} not found`);
+      }
+      const newObservations = o.contents.filter(content => !entity.observations.includes(content));
+      entity.observations.push(...newObservations);
+      return { entityName: o.entityName, addedObservations: newObservations };
+    }));
+  }
+
+  async deleteEntities(entityNames: string[]): Promise<void> {
+    await this.mutate(graph => {
+      graph.entities = graph.entities.filter(e => !entityNames.includes(e.name));
+      graph.relations = graph.relations.filter(r => !entityNames.includes(r.from) && !entityNames.includes(r.to));
+    });
+  }
+
+  async deleteObservations(deletions: ObservationDeletion[]): Promise<void> {
+    await this.mutate(graph => {
+      deletions.forEach(d => {
+        const entity = graph.entities.find(e => e.name === d.entityName);
+        if (entity) {
+          entity.observations = entity.observations.filter(o => !d.observations.includes(o));
+        }
+      });
+    });
+  }
+
+  async deleteRelations(relations: Relation[]): Promise<void> {
+    await this.mutate(graph => {
+      graph.relations = graph.relations.filter(r => !relations.some(delRelation => isSameRelation(r, delRelation)));
+    });
+  }
+
+  async readGraph(): Promise<KnowledgeGraph> {
+    return this.loadGraph();
+  }
+
+  // Very basic search function
+  async searchNodes(query: string): Promise<KnowledgeGraph> {
+    const graph = await this.loadGraph();
+    const needle = query.toLowerCase();
+
+    const filteredEntities = graph.entities.filter(e =>
+      e.name.toLowerCase().includes(needle) ||
+      e.entityType.toLowerCase().includes(needle) ||
+      e.observations.some(o => o.toLowerCase().includes(needle))
+    );
+
+    return filterGraph(filteredEntities, graph.relations);
+  }
+
+  async openNodes(names: string[]): Promise<KnowledgeGraph> {
+    const graph = await this.loadGraph();
+    return filterGraph(graph.entities.filter(e => names.includes(e.name)), graph.relations);
+  }
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+}
@@ -0,0 +1,62 @@
+import { Entity, Relation } from '../types.js';
+
+// We are storing our memory using entities, relations, and observations in a graph structure
+export interface KnowledgeGraph {
+  entities: Entity[];
+  relations: Relation[];
+}
+
+export interface ObservationAddition {
+  entityName: string;
+  contents: string[];
+}
+
+export interface ObservationDeletion {
+  entityName: string;
+  observations: string[];
+}
+
+/**
+ * Storage engine behind the KnowledgeGraphManager.
+ * Implementations are responsible for making each operation atomic.
+ */
+export interface KnowledgeGraphStorage {
+  createEntities(entities: Entity[]): Promise<Entity[]>;
+  createRelations(relations: Relation[]): Promise<Relation[]>;
+  addObservations(observations: ObservationAddition[]): Promise<{ entityName: string; addedObservations: string[] }[]>;
+  deleteEntities(entityNames: string[]): Promise<void>;
+  deleteObservations(deletions: ObservationDeletion[]): Promise<void>;
+  deleteRelations(relations: Relation[]): Promise<void>;
+  readGraph(): Promise<KnowledgeGraph>;
+  searchNodes(query: string): Promise<KnowledgeGraph>;
+  openNodes(names: string[]): Promise<KnowledgeGraph>;
+  close(): Promise<void>;
+}
+
+/**
+ * Parse the line-delimited JSON memory format
+ */
+export function parseJsonlGraph(data: string): KnowledgeGraph {
+  const lines = data.split("\n").filter(line => line.trim() !== "");
+  return lines.reduce((graph: KnowledgeGraph, line) => {
+    const { type, ...item } = JSON.parse(line);
+    if (type === "entity") graph.entities.push(item as Entity);
+    if (type === "relation") graph.relations.push(item as Relation);
+    return graph;
+  }, { entities: [], relations: [] });
+}
+
+/**
+ * Keep only relations whose both ends are in the given entity set
+ */
+export function filterGraph(entities: Entity[], relations: Relation[]): KnowledgeGraph {
+  const entityNames = new Set(entities.map(e => e.name));
+  return {
+    entities,
+    relations: relations.filter(r => entityNames.has(r.from) && entityNames.has(r.to)),
+  };
+}
+
+export function isSameRelation(a: Relation, b: Relation): boolean {
+  return a.from === b.from && a.to === b.to && a.relationType === b.relationType;
+}
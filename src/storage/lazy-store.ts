@@ -0,0 +1,26 @@
+/**
+ * Holds a store that is opened on first use, so the server starts even if its database is
+ * unavailable; a failed open is retried on the next use.
+ */
+export class LazyStore<T extends { close(): Promise<void> }> {
+  private store: T | null;
+
+  constructor(private open: () => T, store?: T) {
+    this.store = store ?? null;
+  }
+
+  get(): T {
+    if (!this.store) {
+      this.store = this.open();
+    }
+    return this.store;
+  }
+
+  async close(): Promise<void> {
+    if (this.store) {
+      const store = this.store;
+      this.store = null;
+      await store.close();
+    }
+  }
+}
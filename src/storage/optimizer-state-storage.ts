@@ -0,0 +1,28 @@
+import { JsonFileStore } from './json-file-store.js';
+import { resolveDataPath } from '../utils/data-path.js';
+
+// JSON file holding the learned optimizer state
+const OPTIMIZER_STATE_PATH = resolveDataPath(process.env.OPTIMIZER_STATE_PATH || 'optimizer-state.json');
+
+/**
+ * Reads and writes the optimizer state as one JSON file. The shape of the state is owned by
+ * the optimizer; this class only handles the file.
+ */
+export class OptimizerStateStorage<T = unknown> {
+  private store: JsonFileStore<T>;
+
+  constructor(filePath: string = OPTIMIZER_STATE_PATH) {
+    this.store = new JsonFileStore(filePath);
+  }
+
+  /**
+   * The saved state, or null when nothing was saved yet
+   */
+  async load(): Promise<T | null> {
+    return this.store.load();
+  }
+
+  async save(state: T): Promise<void> {
+    return this.store.save(state);
+  }
+}
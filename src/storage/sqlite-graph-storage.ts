@@ -0,0 +1,298 @@
+import Database from 'better-sqlite3';
+import { promises as fs } from 'fs';
+import { Entity, Relation } from '../types.js';
+import {
+  KnowledgeGraph,
+  KnowledgeGraphStorage,
+  ObservationAddition,
+  ObservationDeletion,
+  parseJsonlGraph,
+  filterGraph,
+} from './knowledge-graph-storage.js';
+
+interface EntityRow {
+  name: string;
+  entity_type: string;
+  observations: string;
+}
+
+interface RelationRow {
+  from_entity: string;
+  to_entity: string;
+  relation_type: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS entities (
+    name TEXT PRIMARY KEY NOT NULL,
+    entity_type TEXT NOT NULL,
+    observations TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(entity_type);
+  CREATE INDEX IF NOT EXISTS idx_entities_updated ON entities(updated_at);
+
+  CREATE TABLE IF NOT EXISTS relations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    from_entity TEXT NOT NULL,
+    to_entity TEXT NOT NULL,
+    relation_type TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_relations_from ON relations (from_entity);
+  CREATE INDEX IF NOT EXISTS idx_relations_to ON relations (to_entity);
+  CREATE INDEX IF NOT EXISTS idx_relations_type ON relations (relation_type);
+
+  CREATE VIRTUAL TABLE IF NOT EXISTS entities_fts USING fts5(
+    name, entity_type, observations, tokenize = 'trigram'
+  );
+
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  );
+`;
+
+// The trigram tokenizer needs at least three characters to match
+const MIN_FTS_QUERY_LENGTH = 3;
+
+/**
+ * Stores the graph in SQLite with indexed entities and relations,
+ * transactional writes and full-text search over observations.
+ */
+export class SqliteGraphStorage implements KnowledgeGraphStorage {
+  private db: Database.Database;
+
+  constructor(dbPath: string) {
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+    this.migrateSchema();
+  }
+
+  /**
+   * Import a JSONL memory file once, if the database has never been populated from it
+   */
+  async migrateFromJsonl(jsonlPath: string): Promise<{ migrated: boolean; entities: number; relations: number }> {
+    const alreadyMigrated = this.db.prepare('SELECT value FROM meta WHERE key = ?').get('jsonl_migrated_from');
+    if (alreadyMigrated) {
+      return { migrated: false, entities: 0, relations: 0 };
+    }
+
+    let data: string;
+    try {
+      data = await fs.readFile(jsonlPath, 'utf-8');
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && (error as any).code === 'ENOENT') {
+        return { migrated: false, entities: 0, relations: 0 };
+      }
+      throw error;
+    }
+
+    const graph = parseJsonlGraph(data);
+    const migrate = this.db.transaction(() => {
+      const entities = this.insertEntities(graph.entities);
+      const relations = this.insertRelations(graph.relations);
+      this.db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run('jsonl_migrated_from', jsonlPath);
+      return { migrated: true, entities: entities.length, relations: relations.length };
+    });
+
+    return migrate();
+  }
+
+  async createEntities(entities: Entity[]): Promise<Entity[]> {
+    return this.db.transaction(() => this.insertEntities(entities))();
+  }
+
+  async createRelations(relations: Relation[]): Promise<Relation[]> {
+    return this.db.transaction(() => this.insertRelations(relations))();
+  }
+
+  async addObservations(observations: ObservationAddition[]): Promise<{ entityName: string; addedObservations: string[] }[]> {
+    return this.db.transaction(() => observations.map(o => {
+      const entity = this.getEntity(o.entityName);
+      if (!entity) {
+        throw new Error(`Entity with name ${o.entityName} not found`);
+      }
+      const newObservations = o.contents.filter((content, index) =>
+        !entity.observations.includes(content) && o.contents.indexOf(content) === index
+      );
+      if (newObservations.length > 0) {
+        this.updateObservations(entity.name, [...entity.observations, ...newObservations]);
+      }
+      return { entityName: o.entityName, addedObservations: newObservations };
+    }))();
+  }
+
+  async deleteEntities(entityNames: string[]): Promise<void> {
+    const names = JSON.stringify(entityNames);
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM entities WHERE name IN (SELECT value FROM json_each(?))').run(names);
+      this.db.prepare('DELETE FROM entities_fts WHERE name IN (SELECT value FROM json_each(?))').run(names);
+      this.db.prepare(`
+        DELETE FROM relations
+        WHERE from_entity IN (SELECT value FROM json_each(?)) OR to_entity IN (SELECT value FROM json_each(?))
+      `).run(names, names);
+    })();
+  }
+
+  async deleteObservations(deletions: ObservationDeletion[]): Promise<void> {
+    this.db.transaction(() => {
+      deletions.forEach(d => {
+        const entity = this.getEntity(d.entityName);
+        if (entity) {
+          this.updateObservations(entity.name, entity.observations.filter(o => !d.observations.includes(o)));
+        }
+      });
+    })();
+  }
+
+  async deleteRelations(relations: Relation[]): Promise<void> {
+    const remove = this.db.prepare('DELETE FROM relations WHERE from_entity = ? AND to_entity = ? AND relation_type = ?');
+    this.db.transaction(() => {
+      relations.forEach(r => remove.run(r.from, r.to, r.relationType));
+    })();
+  }
+
+  async readGraph(): Promise<KnowledgeGraph> {
+    const entities = this.db.prepare('SELECT name, entity_type, observations FROM entities ORDER BY created_at, name')
+      .all() as EntityRow[];
+    const relations = this.db.prepare('SELECT from_entity, to_entity, relation_type FROM relations ORDER BY id')
+      .all() as RelationRow[];
+
+    return {
+      entities: entities.map(toEntity),
+      relations: relations.map(toRelation),
+    };
+  }
+
+  async searchNodes(query: string): Promise<KnowledgeGraph> {
+    let rows: { name: string }[];
+
+    if (query.length >= MIN_FTS_QUERY_LENGTH) {
+      rows = this.db.prepare('SELECT name FROM entities_fts WHERE entities_fts MATCH ?')
+        .all(`"${query.replace(/"/g, '""')}"`) as { name: string }[];
+    } else {
+      const pattern = `%${query.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      rows = this.db.prepare(`
+        SELECT name FROM entities_fts
+        WHERE name LIKE ? ESCAPE '\\' OR entity_type LIKE ? ESCAPE '\\' OR observations LIKE ? ESCAPE '\\'
+      `).all(pattern, pattern, pattern) as { name: string }[];
+    }
+
+    return this.openNodes(rows.map(row => row.name));
+  }
+
+  async openNodes(names: string[]): Promise<KnowledgeGraph> {
+    const namesJson = JSON.stringify(names);
+    const entities = this.db.prepare(`
+      SELECT name, entity_type, observations FROM entities
+      WHERE name IN (SELECT value FROM json_each(?))
+      ORDER BY created_at, name
+    `).all(namesJson) as EntityRow[];
+    const relations = this.db.prepare(`
+      SELECT from_entity, to_entity, relation_type FROM relations
+      WHERE from_entity IN (SELECT value FROM json_each(?)) AND to_entity IN (SELECT value FROM json_each(?))
+      ORDER BY id
+    `).all(namesJson, namesJson) as RelationRow[];
+
+    return filterGraph(entities.map(toEntity), relations.map(toRelation));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /**
+   * Bring databases written by earlier versions up to the current schema
+   */
+  private migrateSchema(): void {
+    this.db.transaction(() => {
+      // Relations were not unique before; drop the duplicates the unique index would reject
+      if (!this.db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = 'idx_relations_unique'`).get()) {
+        this.db.exec(`
+          DELETE FROM relations WHERE rowid NOT IN (
+            SELECT MIN(rowid) FROM relations GROUP BY from_entity, to_entity, relation_type
+          );
+          CREATE UNIQUE INDEX idx_relations_unique ON relations (from_entity, to_entity, relation_type);
+        `);
+      }
+
+      // Entities written before the full-text index existed are not in it
+      const count = (table: string) => (this.db.prepare(`SELECT count(*) AS count FROM ${table}`).get() as { count: number }).count;
+      if (count('entities_fts') !== count('entities')) {
+        this.db.exec(`
+          DELETE FROM entities_fts;
+          INSERT INTO entities_fts (name, entity_type, observations)
+            SELECT name, entity_type, (SELECT group_concat(value, char(10)) FROM json_each(observations)) FROM entities;
+        `);
+      }
+    })();
+  }
+
+  private insertEntities(entities: Entity[]): Entity[] {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO entities (name, entity_type, observations, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    return entities.filter(e => {
+      const inserted = insert.run(e.name, e.entityType, JSON.stringify(e.observations), now, now).changes > 0;
+      if (inserted) {
+        this.indexEntity(e);
+      }
+      return inserted;
+    });
+  }
+
+  private insertRelations(relations: Relation[]): Relation[] {
+    const now = new Date().toISOString();
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO relations (from_entity, to_entity, relation_type, created_at)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    return relations.filter(r => insert.run(r.from, r.to, r.relationType, now).changes > 0);
+  }
+
+  private getEntity(name: string): Entity | undefined {
+    const row = this.db.prepare('SELECT name, entity_type, observations FROM entities WHERE name = ?')
+      .get(name) as EntityRow | undefined;
+    return row ? toEntity(row) : undefined;
+  }
+
+  private updateObservations(name: string, observations: string[]): void {
+    this.db.prepare('UPDATE entities SET observations = ?, updated_at = ? WHERE name = ?')
+      .run(JSON.stringify(observations), new Date().toISOString(), name);
+
+    const entity = this.getEntity(name);
+    if (entity) {
+      this.indexEntity(entity);
+    }
+  }
+
+  private indexEntity(entity: Entity): void {
+    this.db.prepare('DELETE FROM entities_fts WHERE name = ?').run(entity.name);
+    this.db.prepare('INSERT INTO entities_fts (name, entity_type, observations) VALUES (?, ?, ?)')
+      .run(entity.name, entity.entityType, entity.observations.join('\n'));
+  }
+}
+
+function toEntity(row: EntityRow): Entity {
+  return {
+    name: row.name,
+    entityType: row.entity_type,
+    observations: JSON.parse(row.observations),
+  };
+}
+
+function toRelation(row: RelationRow): Relation {
+  return {
+    from: row.from_entity,
+    to: row.to_entity,
+    relationType: row.relation_type,
+  };
+}
@@ -0,0 +1,80 @@
+import Database from 'better-sqlite3';
+
+export interface ToolCallSample {
+  serverName: string;
+  toolName: string;
+  duration: number; // in milliseconds
+  success: boolean;
+  calledAt: string;
+}
+
+interface SampleRow {
+  server_name: string;
+  tool_name: string;
+  duration: number;
+  success: number;
+  called_at: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tool_calls (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    server_name TEXT NOT NULL,
+    tool_name TEXT NOT NULL,
+    duration INTEGER NOT NULL,
+    success INTEGER NOT NULL,
+    called_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tool_calls_tool ON tool_calls (server_name, tool_name, id);
+`;
+
+/**
+ * Stores observed tool calls in SQLite, keeping the most recent samples of each tool
+ */
+export class ToolStatsStorage {
+  private db: Database.Database;
+
+  constructor(dbPath: string, private maxSamplesPerTool: number) {
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+  }
+
+  /**
+   * Insert a sample, then drop the oldest samples of that tool beyond the limit
+   */
+  async saveSample(sample: ToolCallSample): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO tool_calls (server_name, tool_name, duration, success, called_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(sample.serverName, sample.toolName, Math.round(sample.duration), sample.success ? 1 : 0, sample.calledAt);
+
+      this.db.prepare(`
+        DELETE FROM tool_calls WHERE server_name = ? AND tool_name = ? AND id NOT IN (
+          SELECT id FROM tool_calls WHERE server_name = ? AND tool_name = ? ORDER BY id DESC LIMIT ?
+        )
+      `).run(sample.serverName, sample.toolName, sample.serverName, sample.toolName, this.maxSamplesPerTool);
+    })();
+  }
+
+  /**
+   * All stored samples, oldest first
+   */
+  async loadSamples(): Promise<ToolCallSample[]> {
+    const rows = this.db.prepare('SELECT server_name, tool_name, duration, success, called_at FROM tool_calls ORDER BY id')
+      .all() as SampleRow[];
+    return rows.map(row => ({
+      serverName: row.server_name,
+      toolName: row.tool_name,
+      duration: row.duration,
+      success: row.success === 1,
+      calledAt: row.called_at,
+    }));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
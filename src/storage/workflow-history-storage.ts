@@ -0,0 +1,167 @@
+import Database from 'better-sqlite3';
+import type { WorkflowExecutionResult } from '../managers/workflow-orchestrator.js';
+
+export interface WorkflowHistoryQuery {
+  workflowId?: string;
+  status?: WorkflowExecutionResult['status'];
+  since?: string; // ISO timestamp, compared with the run start
+  until?: string; // a date alone covers that whole day
+  limit?: number;
+}
+
+export interface WorkflowHistoryRetention {
+  maxRuns: number; // 0 keeps every run
+  maxAgeDays: number; // 0 keeps runs forever
+}
+
+interface RunRow {
+  run: string;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS workflow_runs (
+    run_id TEXT PRIMARY KEY NOT NULL,
+    workflow_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    completed_at TEXT,
+    execution_time INTEGER,
+    error TEXT,
+    run TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_workflow_runs_workflow ON workflow_runs (workflow_id);
+  CREATE INDEX IF NOT EXISTS idx_workflow_runs_status ON workflow_runs (status);
+  CREATE INDEX IF NOT EXISTS idx_workflow_runs_started ON workflow_runs (started_at);
+`;
+
+const DEFAULT_QUERY_LIMIT = 50;
+
+const INTERRUPTED_RUN_ERROR = 'Interrupted: the server stopped before the run finished';
+
+// An ISO 8601 date without a time, read as that day in UTC
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Stores workflow runs in SQLite, with their step results as JSON
+ */
+export class WorkflowHistoryStorage {
+  private db: Database.Database;
+
+  constructor(dbPath: string, private retention: WorkflowHistoryRetention) {
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(SCHEMA);
+    this.db.transaction(() => {
+      this.failInterruptedRuns();
+      this.applyRetention();
+    })();
+  }
+
+  /**
+   * Insert or update a run, then apply the retention limits
+   */
+  async saveRun(run: WorkflowExecutionResult): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO workflow_runs
+          (run_id, workflow_id, name, status, started_at, completed_at, execution_time, error, run)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        run.runId,
+        run.workflowId,
+        run.name,
+        run.status,
+        run.startedAt,
+        run.completedAt ?? null,
+        run.executionTime,
+        run.error ?? null,
+        JSON.stringify(run)
+      );
+      this.applyRetention();
+    })();
+  }
+
+  async getRun(runId: string): Promise<WorkflowExecutionResult | null> {
+    const row = this.db.prepare('SELECT run FROM workflow_runs WHERE run_id = ?').get(runId) as RunRow | undefined;
+    return row ? JSON.parse(row.run) : null;
+  }
+
+  /**
+   * Runs matching the query, most recently started first
+   */
+  async queryRuns(query: WorkflowHistoryQuery = {}): Promise<WorkflowExecutionResult[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.workflowId) {
+      conditions.push('workflow_id = ?');
+      params.push(query.workflowId);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.since) {
+      conditions.push('started_at >= ?');
+      params.push(new Date(query.since).toISOString());
+    }
+    if (query.until && DATE_ONLY.test(query.until)) {
+      const nextDay = new Date(query.until);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      conditions.push('started_at < ?');
+      params.push(nextDay.toISOString());
+    } else if (query.until) {
+      conditions.push('started_at <= ?');
+      params.push(new Date(query.until).toISOString());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT run FROM workflow_runs ${where} ORDER BY started_at DESC LIMIT ?`)
+      .all(...params, query.limit ?? DEFAULT_QUERY_LIMIT) as RunRow[];
+    return rows.map(row => JSON.parse(row.run));
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  /**
+   * Runs still marked running when the database is opened were cut off by a crash or restart.
+   * They are marked failed, with their unfinished steps skipped, so they can be resumed and pruned.
+   */
+  private failInterruptedRuns(): void {
+    const rows = this.db.prepare(`SELECT run FROM workflow_runs WHERE status = 'running'`).all() as RunRow[];
+    const update = this.db.prepare('UPDATE workflow_runs SET status = ?, completed_at = ?, error = ?, run = ? WHERE run_id = ?');
+    const now = new Date().toISOString();
+    for (const row of rows) {
+      const run = JSON.parse(row.run) as WorkflowExecutionResult;
+      run.status = 'failed';
+      run.completedAt = now;
+      run.error = INTERRUPTED_RUN_ERROR;
+      for (const step of run.steps) {
+        if (step.status === 'pending' || step.status === 'running') {
+          step.status = 'skipped';
+          step.skipReason = INTERRUPTED_RUN_ERROR;
+        }
+      }
+      update.run(run.status, run.completedAt, run.error, JSON.stringify(run), run.runId);
+    }
+  }
+
+  private applyRetention(): void {
+    if (this.retention.maxAgeDays > 0) {
+      const cutoff = new Date(Date.now() - this.retention.maxAgeDays * 24 * 60 * 60 * 1000).toISOString();
+      this.db.prepare(`DELETE FROM workflow_runs WHERE started_at < ? AND status != 'running'`).run(cutoff);
+    }
+    // Running runs are still being written and are never pruned, nor counted against maxRuns
+    if (this.retention.maxRuns > 0) {
+      this.db.prepare(`
+        DELETE FROM workflow_runs WHERE status != 'running' AND run_id NOT IN (
+          SELECT run_id FROM workflow_runs WHERE status != 'running' ORDER BY started_at DESC LIMIT ?
+        )
+      `).run(this.retention.maxRuns);
+    }
+  }
+}
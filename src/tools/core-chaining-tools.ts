@@ -9,6 +9,14 @@ export const coreChainingTools: Tool[] = [
       properties: {},
     },
   },
+  {
+    name: 'refresh_discovery',
+    description: 'Reloads the discovery configuration and queries every MCP server again, bypassing the discovery cache',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
   {
     name: 'analyze_tools',
     description: 'Analyzes available tools from discovered MCP servers',
@@ -44,6 +52,61 @@ export const coreChainingTools: Tool[] = [
       required: ['task'],
     },
   },
+  {
+    name: 'route_to_workflow',
+    description: 'Convert a suggested route into a workflow_orchestrator definition, with step ordering, required parameters and proposed output mappings; optionally run it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        route: {
+          type: 'object',
+          description: 'A route returned by generate_route_suggestions; only the name and serverName of each tool are required',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            tools: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string', description: 'Tool name' },
+                  serverName: { type: 'string', description: 'Server providing the tool' },
+                },
+                required: ['name', 'serverName'],
+              },
+            },
+          },
+          required: ['tools'],
+        },
+        task: { type: 'string', description: 'Generate routes for this task and convert one of them, when no route is given' },
+        criteria: { type: 'object', description: 'Optimization criteria used with task' },
+        routeIndex: { type: 'number', minimum: 0, default: 0, description: 'Index of the generated route to convert' },
+        workflowId: { type: 'string', description: 'Id of the generated workflow' },
+        name: { type: 'string', description: 'Name of the generated workflow' },
+        variables: { type: 'object', description: 'Values for the variables read by required parameters' },
+        execute: { type: 'boolean', default: false, description: 'Run the workflow right away and include the run in the result' },
+      },
+    },
+  },
+  {
+    name: 'submit_route_feedback',
+    description: 'Report how a route from generate_route_suggestions worked out, so the optimizer ranks future routes accordingly',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        routeId: { type: 'string', description: 'Id of the route, as returned by generate_route_suggestions' },
+        outcome: { type: 'string', enum: ['success', 'partial', 'failure'], description: 'How the route worked out' },
+        rating: { type: 'number', minimum: 1, maximum: 5, description: 'Optional rating from 1 (poor) to 5 (excellent)' },
+        actualDuration: { type: 'number', minimum: 0, description: 'Time the whole route took, in milliseconds' },
+        toolDurations: {
+          type: 'object',
+          additionalProperties: { type: 'number', minimum: 0 },
+          description: 'Time each tool took, in milliseconds, by tool name',
+        },
+      },
+      required: ['routeId', 'outcome'],
+    },
+  },
   {
     name: 'analyze_with_sequential_thinking',
     description: 'Analyzes complex workflows using sequential thinking',
@@ -0,0 +1,22 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const reliabilityTools: Tool[] = [
+  {
+    name: 'get_server_health',
+    description: 'Get the health status of the chaining server, including error rate, response times, and downstream MCP server sessions',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_reliability_metrics',
+    description: 'Get reliability metrics collected from tool calls, including request counts, error rate, retry policies, recent requests, and the measured latency and failure rate of downstream tools',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        toolName: { type: 'string', description: 'Optional: only include recent requests for this tool' },
+      },
+    },
+  },
+];
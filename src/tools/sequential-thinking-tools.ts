@@ -1,5 +1,84 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 
+/**
+ * Input schema shared by the tools that run workflows
+ */
+export const workflowInputSchema: Tool['inputSchema'] = {
+  type: 'object',
+  properties: {
+    workflowId: { type: 'string', description: 'Unique identifier for the workflow' },
+    name: { type: 'string', description: 'Human-readable name for the workflow' },
+    description: { type: 'string', description: 'Description of what this workflow does' },
+    steps: {
+      type: 'array',
+      description: 'Array of workflow steps to execute',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Unique identifier for this step' },
+          serverName: { type: 'string', description: 'Name of the MCP server to execute on' },
+          toolName: { type: 'string', description: 'Name of the tool to execute' },
+          parameters: { type: 'object', description: 'Parameters to pass to the tool; strings may contain {{expression}} templates, e.g. "{{steps.search.result.items[0].link}}"' },
+          dependsOn: { type: 'array', items: { type: 'string' }, description: 'IDs of steps that must complete before this step' },
+          outputMapping: { type: 'object', description: 'Map input parameters to outputs of earlier steps, as "stepId.path" (e.g. "search.items[0].link")' },
+          retryOnFailure: { type: 'boolean', description: 'Whether to retry this step on failure' },
+          maxRetries: { type: 'number', description: 'Maximum number of retries' },
+          retryPolicy: {
+            type: 'object',
+            description: 'Backoff and error matching for retries',
+            properties: {
+              initialDelay: { type: 'number', description: 'Delay before the first retry in milliseconds (default: 1000)' },
+              backoffMultiplier: { type: 'number', description: 'Factor applied to the delay after each retry (default: 2)' },
+              maxDelay: { type: 'number', description: 'Upper bound for the delay between retries in milliseconds (default: 30000)' },
+              jitter: { type: 'number', minimum: 0, maximum: 1, description: 'Random variation applied to each delay, as a fraction of it (default: 0.2)' },
+              retryOn: {
+                type: 'array',
+                items: { type: 'string', enum: ['timeout', 'connection', 'tool_error', 'server_not_found', 'unknown'] },
+                description: 'Error types that trigger a retry (default: all except server_not_found)',
+              },
+            },
+          },
+          timeout: { type: 'number', description: 'Maximum execution time of a single attempt in milliseconds' },
+          when: {
+            type: 'string',
+            description: "Condition over `steps` and `variables`, e.g. \"steps.tests.result.failed > 0\"; the step is skipped when it is false",
+          },
+          onFailure: { type: 'array', items: { type: 'string' }, description: 'IDs of fallback steps that run only if this step fails' },
+          switch: {
+            type: 'object',
+            description: 'Branch on the step result; steps of unselected cases are skipped',
+            properties: {
+              expression: { type: 'string', description: 'Expression evaluated after the step completes; `result` is the step result' },
+              cases: {
+                type: 'object',
+                additionalProperties: { type: 'array', items: { type: 'string' } },
+                description: 'IDs of the steps to run for each value of the expression',
+              },
+              default: { type: 'array', items: { type: 'string' }, description: 'IDs of the steps to run when no case matches' },
+            },
+            required: ['expression', 'cases'],
+          },
+          forEach: {
+            type: 'object',
+            description: 'Call the tool once per item of an array parameter and gather the results into an array',
+            properties: {
+              parameter: { type: 'string', description: 'Parameter holding the array to iterate over, after variables and outputMapping are applied' },
+              as: { type: 'string', description: 'Parameter that receives each item (default: the iterated parameter)' },
+              concurrency: { type: 'number', minimum: 1, description: 'Maximum number of iterations running at the same time (default: 5)' },
+            },
+            required: ['parameter'],
+          },
+        },
+        required: ['id', 'serverName', 'toolName', 'parameters'],
+      },
+    },
+    failFast: { type: 'boolean', description: 'Whether to stop execution on first failure' },
+    timeout: { type: 'number', description: 'Maximum execution time of the whole workflow in milliseconds' },
+    variables: { type: 'object', description: 'Global variables available to all steps' },
+  },
+  required: ['workflowId', 'name', 'steps'],
+};
+
 export const sequentialThinkingTools: Tool[] = [
   {
     name: 'brainstorming',
@@ -26,34 +105,15 @@ export const sequentialThinkingTools: Tool[] = [
     name: 'workflow_orchestrator',
     description: 'Execute complex multi-server workflows across the MCP ecosystem with dependency management and error handling',
     inputSchema: {
-      type: 'object',
+      ...workflowInputSchema,
       properties: {
-        workflowId: { type: 'string', description: 'Unique identifier for the workflow' },
-        name: { type: 'string', description: 'Human-readable name for the workflow' },
-        description: { type: 'string', description: 'Description of what this workflow does' },
-        steps: {
-          type: 'array',
-          description: 'Array of workflow steps to execute',
-          items: {
-            type: 'object',
-            properties: {
-              id: { type: 'string', description: 'Unique identifier for this step' },
-              serverName: { type: 'string', description: 'Name of the MCP server to execute on' },
-              toolName: { type: 'string', description: 'Name of the tool to execute' },
-              parameters: { type: 'object', description: 'Parameters to pass to the tool' },
-              dependsOn: { type: 'array', items: { type: 'string' }, description: 'IDs of steps that must complete before this step' },
-              outputMapping: { type: 'object', description: 'Map outputs from this step to input parameters for dependent steps' },
-              retryOnFailure: { type: 'boolean', description: 'Whether to retry this step on failure' },
-              maxRetries: { type: 'number', description: 'Maximum number of retries' },
-            },
-            required: ['id', 'serverName', 'toolName', 'parameters'],
-          },
+        ...workflowInputSchema.properties,
+        dryRun: {
+          type: 'boolean',
+          default: false,
+          description: 'Return the execution plan, resolved parameters, missing servers and tools and an estimated duration without executing any step',
         },
-        failFast: { type: 'boolean', description: 'Whether to stop execution on first failure' },
-        timeout: { type: 'number', description: 'Maximum execution time in milliseconds' },
-        variables: { type: 'object', description: 'Global variables available to all steps' },
       },
-      required: ['workflowId', 'name', 'steps'],
     },
   },
 ];
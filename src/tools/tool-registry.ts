@@ -5,6 +5,10 @@ import { sequentialThinkingTools } from './sequential-thinking-tools.js';
 import { timeManagementTools } from './time-management-tools.js';
 import { promptResourceTools } from './prompt-resource-tools.js';
 import { validationAnalysisTools } from './validation-analysis-tools.js';
+import { memoryTools } from './memory-tools.js';
+import { reliabilityTools } from './reliability-tools.js';
+import { workflowRunTools } from './workflow-run-tools.js';
+import { workflowLibraryTools } from './workflow-library-tools.js';
 
 export const allTools: Tool[] = [
   ...coreChainingTools,
@@ -13,6 +17,10 @@ export const allTools: Tool[] = [
   ...timeManagementTools,
   ...promptResourceTools,
   ...validationAnalysisTools,
+  ...memoryTools,
+  ...reliabilityTools,
+  ...workflowRunTools,
+  ...workflowLibraryTools,
 ];
 
 export {
@@ -22,4 +30,8 @@ export {
   timeManagementTools,
   promptResourceTools,
   validationAnalysisTools,
+  memoryTools,
+  reliabilityTools,
+  workflowRunTools,
+  workflowLibraryTools,
 };
@@ -0,0 +1,51 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { workflowInputSchema } from './sequential-thinking-tools.js';
+
+export const workflowLibraryTools: Tool[] = [
+  {
+    name: 'save_workflow',
+    description: 'Validate a workflow definition and save it to the workflow library as a new version',
+    inputSchema: workflowInputSchema,
+  },
+  {
+    name: 'list_workflows',
+    description: 'List the workflows saved in the workflow library, at their latest version',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_workflow',
+    description: 'Get a saved workflow definition',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflowId: { type: 'string', description: 'Id of the saved workflow' },
+        version: { type: 'number', description: 'Optional: version to get (default: latest)' },
+      },
+      required: ['workflowId'],
+    },
+  },
+  {
+    name: 'run_saved_workflow',
+    description: 'Run a saved workflow, optionally overriding its variables, step parameters, failFast or timeout',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflowId: { type: 'string', description: 'Id of the saved workflow' },
+        version: { type: 'number', description: 'Optional: version to run (default: latest)' },
+        variables: { type: 'object', description: 'Variables merged over the saved ones' },
+        parameters: {
+          type: 'object',
+          additionalProperties: { type: 'object' },
+          description: 'Parameters merged over the saved ones, keyed by step id',
+        },
+        failFast: { type: 'boolean', description: 'Override whether to stop execution on first failure' },
+        timeout: { type: 'number', description: 'Override the maximum execution time of the whole workflow in milliseconds' },
+        background: { type: 'boolean', default: false, description: 'Start the run in the background and return its run id, like start_workflow' },
+      },
+      required: ['workflowId'],
+    },
+  },
+];
@@ -0,0 +1,83 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { workflowInputSchema } from './sequential-thinking-tools.js';
+
+export const workflowRunTools: Tool[] = [
+  {
+    name: 'start_workflow',
+    description: 'Start a workflow in the background and return its run id immediately; poll it with get_workflow_status',
+    inputSchema: workflowInputSchema,
+  },
+  {
+    name: 'get_workflow_status',
+    description: 'Get the status, step results and progress of a workflow run, including finished runs from the history',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: { type: 'string', description: 'Run id returned by start_workflow or workflow_orchestrator' },
+      },
+      required: ['runId'],
+    },
+  },
+  {
+    name: 'cancel_workflow',
+    description: 'Cancel a running workflow; in-flight steps are aborted and remaining steps are skipped',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: { type: 'string', description: 'Run id of the workflow to cancel' },
+      },
+      required: ['runId'],
+    },
+  },
+  {
+    name: 'list_workflow_runs',
+    description: 'List recent workflow runs with their status and progress',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: ['running', 'completed', 'failed', 'cancelled'],
+          description: 'Optional: only list runs with this status',
+        },
+      },
+    },
+  },
+  {
+    name: 'query_workflow_history',
+    description: 'Query the persistent history of workflow runs by workflow id, status or start date range',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        workflowId: { type: 'string', description: 'Only runs of this workflow' },
+        status: {
+          type: 'string',
+          enum: ['running', 'completed', 'failed', 'cancelled'],
+          description: 'Only runs with this status',
+        },
+        since: { type: 'string', description: 'Only runs started at or after this ISO 8601 date or timestamp' },
+        until: { type: 'string', description: 'Only runs started at or before this ISO 8601 date or timestamp' },
+        limit: { type: 'number', minimum: 1, maximum: 500, default: 50, description: 'Maximum number of runs to return' },
+        includeSteps: { type: 'boolean', default: false, description: 'Include the step results of each run' },
+      },
+    },
+  },
+  {
+    name: 'resume_workflow',
+    description: 'Resume a failed or cancelled workflow run as a new run: completed steps keep their results, and only failed, skipped and downstream steps execute again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        runId: { type: 'string', description: 'Run id of the failed or cancelled run' },
+        variables: { type: 'object', description: 'Variables merged over the ones of the original run' },
+        parameters: {
+          type: 'object',
+          additionalProperties: { type: 'object' },
+          description: 'Parameters merged over the original ones, keyed by step id; overridden steps and their dependents run again',
+        },
+        background: { type: 'boolean', default: false, description: 'Start the resumed run in the background and return its run id, like start_workflow' },
+      },
+      required: ['runId'],
+    },
+  },
+];
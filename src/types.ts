@@ -1,11 +1,21 @@
 import { z } from 'zod';
 
-// MCP Server Information Schema
+// Credentials sent to a remote MCP server, as an Authorization header
+export const MCPServerAuthSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('bearer'), token: z.string() }),
+  z.object({ type: z.literal('basic'), username: z.string(), password: z.string() }),
+]);
+
+// MCP Server Information Schema: a local server started with `command`, or a remote one at `url`
 export const MCPServerInfoSchema = z.object({
   name: z.string(),
-  command: z.string(),
-  args: z.array(z.string()),
+  type: z.enum(['stdio', 'sse', 'http']).optional(), // http is Streamable HTTP; by default inferred from command or url
+  command: z.string().optional(),
+  args: z.array(z.string()).default([]),
   env: z.record(z.string()).optional(),
+  url: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  auth: MCPServerAuthSchema.optional(),
   description: z.string().optional(),
   version: z.string().optional(),
   capabilities: z.object({
@@ -13,6 +23,8 @@ export const MCPServerInfoSchema = z.object({
     resources: z.boolean().optional(),
     prompts: z.boolean().optional(),
   }).optional(),
+}).refine(server => (server.type === 'stdio' ? !!server.command : server.type ? !!server.url : !!(server.command || server.url)), {
+  message: 'A stdio server needs a command, and an sse or http server a url',
 });
 
 // Tool Information Schema
@@ -20,6 +32,7 @@ export const ToolInfoSchema = z.object({
   name: z.string(),
   description: z.string(),
   inputSchema: z.record(z.any()),
+  outputSchema: z.record(z.any()).optional(),
   serverName: z.string(),
   category: z.string().optional(),
   dependencies: z.array(z.string()).optional(),
@@ -27,6 +40,18 @@ export const ToolInfoSchema = z.object({
   estimatedDuration: z.number().optional(), // in milliseconds
 });
 
+// A proposed binding of one step's output to an input of a later step of a route
+export const ParameterBindingSchema = z.object({
+  fromStep: z.number(), // index of the producing step in the route
+  fromTool: z.string(),
+  output: z.string(),
+  toStep: z.number(),
+  toTool: z.string(),
+  input: z.string(),
+  match: z.enum(['name', 'alias', 'description']), // how the output was matched to the input
+  inferred: z.boolean(), // the output was inferred from the tool description rather than declared in its outputSchema
+});
+
 // Route Suggestion Schema
 export const RouteSuggestionSchema = z.object({
   id: z.string(),
@@ -37,6 +62,8 @@ export const RouteSuggestionSchema = z.object({
   complexity: z.number().min(1).max(10),
   confidence: z.number().min(0).max(1),
   reasoning: z.string(),
+  bindings: z.array(ParameterBindingSchema).optional(),
+  unboundInputs: z.array(z.object({ step: z.number(), tool: z.string(), input: z.string() })).optional(), // required inputs no earlier step provides
 });
 
 // Optimization Criteria Schema
@@ -93,6 +120,29 @@ export const AnalyzeWithSequentialThinkingSchema = z.object({
   maxThoughts: z.number().min(1).max(20).default(10).describe('Maximum number of thoughts for sequential analysis'),
 });
 
+export const RouteToWorkflowSchema = z.object({
+  route: z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    tools: z.array(ToolInfoSchema.partial().required({ name: true, serverName: true })).min(1),
+  }).optional().describe('Route to convert, as returned by generate_route_suggestions'),
+  task: z.string().optional().describe('Task to generate routes for when no route is given'),
+  criteria: OptimizationCriteriaSchema.optional().describe('Optimization criteria used with task'),
+  routeIndex: z.number().int().min(0).optional().describe('Index of the generated route to convert (default: 0)'),
+  workflowId: z.string().optional().describe('Id of the generated workflow'),
+  name: z.string().optional().describe('Name of the generated workflow'),
+  variables: z.record(z.any()).optional().describe('Values for the variables the workflow reads'),
+  execute: z.boolean().optional().describe('Run the workflow right away'),
+}).refine(input => input.route || input.task, 'Either route or task is required');
+
+export const SubmitRouteFeedbackSchema = z.object({
+  routeId: z.string().describe('Id of a route returned by generate_route_suggestions'),
+  outcome: z.enum(['success', 'partial', 'failure']).describe('How the route worked out'),
+  rating: z.number().int().min(1).max(5).optional().describe('Optional rating of the route from 1 (poor) to 5 (excellent)'),
+  actualDuration: z.number().min(0).optional().describe('Time the whole route took, in milliseconds'),
+  toolDurations: z.record(z.number().min(0)).optional().describe('Time each tool took, in milliseconds, by tool name'),
+});
+
 export const GetToolChainAnalysisSchema = z.object({
   input: z.string().describe('Input description for analysis'),
   criteria: OptimizationCriteriaSchema.optional().describe('Optimization criteria'),
@@ -188,15 +238,43 @@ export const SequentialStateSchema = z.object({
 });
 
 // Workflow Orchestrator Schemas
+export const WorkflowErrorTypeSchema = z.enum(['timeout', 'connection', 'tool_error', 'server_not_found', 'unknown']);
+
+export const WorkflowRetryPolicySchema = z.object({
+  initialDelay: z.number().min(0).optional().describe('Delay before the first retry in milliseconds (default: 1000)'),
+  backoffMultiplier: z.number().min(1).optional().describe('Factor applied to the delay after each retry (default: 2)'),
+  maxDelay: z.number().min(0).optional().describe('Upper bound for the delay between retries in milliseconds (default: 30000)'),
+  jitter: z.number().min(0).max(1).optional().describe('Random variation applied to each delay, as a fraction of it (default: 0.2)'),
+  retryOn: z.array(WorkflowErrorTypeSchema).optional().describe('Error types that trigger a retry (default: all except server_not_found)'),
+});
+
+export const WorkflowSwitchSchema = z.object({
+  expression: z.string().describe('Expression evaluated after the step completes; `result` is the step result'),
+  cases: z.record(z.array(z.string())).describe('IDs of the steps to run for each value of the expression'),
+  default: z.array(z.string()).optional().describe('IDs of the steps to run when no case matches'),
+});
+
+export const WorkflowForEachSchema = z.object({
+  parameter: z.string().describe('Parameter holding the array to iterate over, after variables and outputMapping are applied'),
+  as: z.string().optional().describe('Parameter that receives each item (default: the iterated parameter)'),
+  concurrency: z.number().int().min(1).optional().describe('Maximum number of iterations running at the same time (default: 5)'),
+});
+
 export const WorkflowStepSchema = z.object({
   id: z.string().describe('Unique identifier for this step'),
   serverName: z.string().describe('Name of the MCP server to execute on'),
   toolName: z.string().describe('Name of the tool to execute'),
-  parameters: z.record(z.any()).describe('Parameters to pass to the tool'),
+  parameters: z.record(z.any()).describe('Parameters to pass to the tool; strings may contain {{expression}} templates'),
   dependsOn: z.array(z.string()).optional().describe('IDs of steps that must complete before this step'),
-  outputMapping: z.record(z.string()).optional().describe('Map outputs from this step to input parameters for dependent steps'),
+  outputMapping: z.record(z.string()).optional().describe('Map input parameters to outputs of earlier steps, as "stepId.path"'),
   retryOnFailure: z.boolean().optional().describe('Whether to retry this step on failure'),
   maxRetries: z.number().optional().describe('Maximum number of retries'),
+  retryPolicy: WorkflowRetryPolicySchema.optional().describe('Backoff and error matching for retries'),
+  timeout: z.number().optional().describe('Maximum execution time of a single attempt in milliseconds'),
+  when: z.string().optional().describe('Condition over `steps` and `variables`; the step is skipped when it is false'),
+  onFailure: z.array(z.string()).optional().describe('IDs of fallback steps that run only if this step fails'),
+  switch: WorkflowSwitchSchema.optional().describe('Branch on the step result; steps of unselected cases are skipped'),
+  forEach: WorkflowForEachSchema.optional().describe('Call the tool once per item of an array parameter and gather the results into an array'),
 });
 
 export const WorkflowOrchestratorSchema = z.object({
@@ -209,6 +287,23 @@ export const WorkflowOrchestratorSchema = z.object({
   variables: z.record(z.any()).optional().describe('Global variables available to all steps'),
 });
 
+export const SavedWorkflowSchema = WorkflowOrchestratorSchema.extend({
+  workflowId: z.string().regex(/^[A-Za-z0-9._-]+$/, 'Workflow ids may only contain letters, digits, ".", "_" and "-"'),
+  version: z.number().int().min(1).describe('Version number, incremented on every save'),
+  savedAt: z.string().describe('When this version was saved'),
+});
+
+const timestamp = z.string().refine(value => !isNaN(Date.parse(value)), 'Expected an ISO 8601 date or timestamp');
+
+export const QueryWorkflowHistorySchema = z.object({
+  workflowId: z.string().optional().describe('Only runs of this workflow'),
+  status: z.enum(['running', 'completed', 'failed', 'cancelled']).optional().describe('Only runs with this status'),
+  since: timestamp.optional().describe('Only runs started at or after this time'),
+  until: timestamp.optional().describe('Only runs started at or before this time; a date alone includes that whole day'),
+  limit: z.number().int().min(1).max(500).optional().describe('Maximum number of runs to return (default: 50)'),
+  includeSteps: z.boolean().optional().describe('Include the step results of each run'),
+});
+
 // Time Schemas
 export const GetCurrentTimeSchema = z.object({
   timezone: z.string().describe('IANA timezone name (e.g., America/New_York, Europe/London)'),
@@ -222,7 +317,9 @@ export const ConvertTimeSchema = z.object({
 
 // Type exports
 export type MCPServerInfo = z.infer<typeof MCPServerInfoSchema>;
+export type MCPServerAuth = z.infer<typeof MCPServerAuthSchema>;
 export type ToolInfo = z.infer<typeof ToolInfoSchema>;
+export type ParameterBinding = z.infer<typeof ParameterBindingSchema>;
 export type RouteSuggestion = z.infer<typeof RouteSuggestionSchema>;
 export type OptimizationCriteria = z.infer<typeof OptimizationCriteriaSchema>;
 export type SequentialThinkingRequest = z.infer<typeof SequentialThinkingRequestSchema>;
@@ -232,6 +329,8 @@ export type AnalyzeToolsInput = z.infer<typeof AnalyzeToolsSchema>;
 export type GenerateRouteSuggestionsInput = z.infer<typeof GenerateRouteSuggestionsSchema>;
 export type AnalyzeWithSequentialThinkingInput = z.infer<typeof AnalyzeWithSequentialThinkingSchema>;
 export type GetToolChainAnalysisInput = z.infer<typeof GetToolChainAnalysisSchema>;
+export type RouteToWorkflowInput = z.infer<typeof RouteToWorkflowSchema>;
+export type SubmitRouteFeedbackInput = z.infer<typeof SubmitRouteFeedbackSchema>;
 
 // Memory types
 export type Entity = z.infer<typeof EntitySchema>;
@@ -255,8 +354,11 @@ export type BrainstormingInput = z.infer<typeof BrainstormingSchema>;
 export type SequentialState = z.infer<typeof SequentialStateSchema>;
 
 // Workflow orchestrator types
+export type WorkflowErrorType = z.infer<typeof WorkflowErrorTypeSchema>;
+export type WorkflowRetryPolicy = z.infer<typeof WorkflowRetryPolicySchema>;
 export type WorkflowStep = z.infer<typeof WorkflowStepSchema>;
 export type WorkflowOrchestratorInput = z.infer<typeof WorkflowOrchestratorSchema>;
+export type SavedWorkflow = z.infer<typeof SavedWorkflowSchema>;
 
 // Time types
 export type GetCurrentTimeInput = z.infer<typeof GetCurrentTimeSchema>;
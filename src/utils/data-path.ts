@@ -0,0 +1,18 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// The project directory; this module is compiled to dist/utils
+const projectDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+/**
+ * Directory the server keeps its data in: MCP_DATA_DIR, or the project directory.
+ * It lies outside dist/, so rebuilding or `npm run clean` does not remove the data.
+ */
+export const DATA_DIR = path.resolve(projectDir, process.env.MCP_DATA_DIR || '.');
+
+/**
+ * Resolve the path of a data file or directory; relative paths are resolved against DATA_DIR
+ */
+export function resolveDataPath(filePath: string): string {
+  return path.resolve(DATA_DIR, filePath);
+}
@@ -0,0 +1,209 @@
+#!/usr/bin/env node
+
+// Starts the built server on stdio against stand-in downstream servers listed in a config
+// file, and checks paginated listing, the discovery cache, refresh_discovery, config-file
+// watching and the forwarding of list_changed notifications. With --downstream, this
+// script is instead a stand-in stdio MCP server. Run `npm run build` first.
+
+import assert from 'assert';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+// Stand-in downstream server. It lists STAND_IN_TOOLS tools two per page, or one per page
+// without end with STAND_IN_ENDLESS, and logs each page it serves to STAND_IN_LOG.
+// `add_tool` adds a tool and sends tools/list_changed.
+if (process.argv.includes('--downstream')) {
+  const name = process.env.STAND_IN_NAME;
+  let toolCount = Number(process.env.STAND_IN_TOOLS ?? 0);
+  const standInTool = index => ({ name: `${name}_${index}`, description: `Tool ${index} of ${name}`, inputSchema: { type: 'object', properties: {} } });
+
+  const server = new Server({ name, version: '1.0.0' }, { capabilities: { tools: { listChanged: true } } });
+  server.setRequestHandler(ListToolsRequestSchema, async request => {
+    const start = Number(request.params?.cursor ?? 0);
+    appendFileSync(process.env.STAND_IN_LOG, `${name} ${start}\n`);
+    if (process.env.STAND_IN_ENDLESS) {
+      return { tools: [standInTool(start)], nextCursor: String(start + 1) };
+    }
+    const tools = [];
+    for (let index = start; index < Math.min(start + 2, toolCount); index++) {
+      tools.push(standInTool(index));
+    }
+    tools.push(...(start === 0 ? [{ name: `${name}_add_tool`, description: 'Add a tool', inputSchema: { type: 'object', properties: {} } }] : []));
+    return { tools, ...(start + 2 < toolCount && { nextCursor: String(start + 2) }) };
+  });
+  server.setRequestHandler(CallToolRequestSchema, async () => {
+    toolCount++;
+    await server.sendToolListChanged();
+    return { content: [{ type: 'text', text: JSON.stringify({ tools: toolCount }) }] };
+  });
+  await server.connect(new StdioServerTransport());
+  await new Promise(() => {}); // served until the parent closes stdin
+}
+
+const tempDir = mkdtempSync(join(tmpdir(), 'chaining-discovery-'));
+const configPath = join(tempDir, 'mcp.json');
+const logPath = join(tempDir, 'list-calls.log');
+writeFileSync(logPath, '');
+
+const standInEntry = (name, env = {}) => ({
+  command: 'node',
+  args: [fileURLToPath(import.meta.url), '--downstream'],
+  env: { STAND_IN_NAME: name, STAND_IN_LOG: logPath, ...env },
+});
+const writeConfig = servers => writeFileSync(configPath, JSON.stringify({ mcpServers: servers }));
+
+// Pages served since the last call, as "<server> <cursor>" lines
+let logOffset = 0;
+const readListCalls = () => {
+  const log = readFileSync(logPath, 'utf-8');
+  const lines = log.slice(logOffset).split('\n').filter(Boolean);
+  logOffset = log.length;
+  return lines;
+};
+
+const startServer = async (env = {}) => {
+  const transport = new StdioClientTransport({
+    command: 'node',
+    args: [join(process.cwd(), 'dist/index.js')],
+    cwd: tempDir,
+    stderr: 'ignore',
+    env: {
+      ...process.env,
+      MCP_DISCOVERY_CONFIG_PATHS: JSON.stringify([configPath]),
+      MCP_ESSENTIAL_SERVERS: '[]',
+      MCP_DATA_DIR: tempDir,
+      ...env,
+    },
+  });
+  const client = new Client({ name: 'test-discovery', version: '1.0.0' });
+  const notifications = [];
+  client.setNotificationHandler(ToolListChangedNotificationSchema, async notification => {
+    notifications.push(notification);
+  });
+  await client.connect(transport);
+
+  const callTool = async (name, args = {}) => {
+    const response = await client.callTool({ name, arguments: args });
+    assert.strictEqual(response.isError === true, false, response.content[0].text);
+    return JSON.parse(response.content[0].text);
+  };
+  const servers = async () => Object.fromEntries((await callTool('list_mcp_servers')).servers.map(server => [server.name, server.discovery]));
+  const toolNames = async serverName => (await callTool('analyze_tools', { serverName })).tools.map(tool => tool.name).sort();
+  return { client, notifications, callTool, servers, toolNames };
+};
+
+const waitFor = async (condition, timeout = 10000) => {
+  const deadline = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the change');
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+};
+
+const names = (name, count) => [...Array.from({ length: count }, (_, index) => `${name}_${index}`), `${name}_add_tool`].sort();
+
+let failed = false;
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+let server;
+try {
+  writeConfig({ paged: standInEntry('paged', { STAND_IN_TOOLS: '5' }), endless: standInEntry('endless', { STAND_IN_ENDLESS: '1' }) });
+  server = await startServer();
+
+  await test('tools listed over several pages are all discovered', async () => {
+    assert.deepStrictEqual(await server.toolNames('paged'), names('paged', 5));
+    assert.deepStrictEqual(readListCalls().filter(line => line.startsWith('paged ')), ['paged 0', 'paged 2', 'paged 4']);
+  });
+
+  await test('listing stops after MAX_LIST_PAGES pages', async () => {
+    assert.strictEqual((await server.toolNames('endless')).length, 100);
+    assert.strictEqual((await server.servers()).endless.status, 'ok');
+  });
+
+  await test('a second startup within the cache TTL reads the tools from the cache', async () => {
+    await server.client.close();
+    server = await startServer();
+    const statuses = await server.servers();
+    assert.ok(statuses.paged.cachedAt);
+    assert.ok(statuses.endless.cachedAt);
+    assert.deepStrictEqual(await server.toolNames('paged'), names('paged', 5));
+    assert.deepStrictEqual(readListCalls(), []);
+  });
+
+  await test('refresh_discovery queries every server again', async () => {
+    const result = await server.callTool('refresh_discovery');
+    assert.strictEqual(result.totalTools, 106);
+    assert.ok(result.servers.every(status => status.status === 'ok' && !status.cachedAt));
+    assert.deepStrictEqual(readListCalls().filter(line => line.startsWith('paged ')), ['paged 0', 'paged 2', 'paged 4']);
+  });
+
+  await test('list_changed of a downstream server is re-discovered and forwarded to the client', async () => {
+    const notified = server.notifications.length;
+    await server.callTool('workflow_orchestrator', {
+      workflowId: 'add-tool',
+      name: 'Add a tool',
+      steps: [{ id: 'add', serverName: 'paged', toolName: 'paged_add_tool', parameters: {} }],
+    });
+    await waitFor(() => server.notifications.length > notified);
+    assert.deepStrictEqual(await server.toolNames('paged'), names('paged', 6));
+  });
+
+  await test('a changed config file is re-discovered: changed servers are queried, removed ones dropped', async () => {
+    readListCalls();
+    const notified = server.notifications.length;
+    writeConfig({ paged: standInEntry('paged', { STAND_IN_TOOLS: '3' }) });
+    await waitFor(() => server.notifications.length > notified);
+    const statuses = await server.servers();
+    assert.deepStrictEqual(Object.keys(statuses), ['paged']);
+    assert.strictEqual(statuses.paged.cachedAt, undefined);
+    assert.deepStrictEqual(await server.toolNames('paged'), names('paged', 3));
+    assert.deepStrictEqual(await server.toolNames('endless'), []);
+    assert.deepStrictEqual(readListCalls(), ['paged 0', 'paged 2']);
+  });
+
+  await test('a server whose command, args or env changed is not read from the cache', async () => {
+    await server.client.close();
+    writeConfig({ paged: standInEntry('paged', { STAND_IN_TOOLS: '3' }) });
+    server = await startServer();
+    assert.ok((await server.servers()).paged.cachedAt);
+    assert.deepStrictEqual(readListCalls(), []);
+
+    await server.client.close();
+    writeConfig({ paged: standInEntry('paged', { STAND_IN_TOOLS: '4' }) });
+    server = await startServer();
+    assert.strictEqual((await server.servers()).paged.cachedAt, undefined);
+    assert.deepStrictEqual(await server.toolNames('paged'), names('paged', 4));
+    assert.deepStrictEqual(readListCalls(), ['paged 0', 'paged 2']);
+  });
+
+  await test('cached tools older than the TTL are queried again', async () => {
+    await server.client.close();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    server = await startServer({ MCP_DISCOVERY_CACHE_TTL: '20' });
+    assert.strictEqual((await server.servers()).paged.cachedAt, undefined);
+    assert.deepStrictEqual(readListCalls(), ['paged 0', 'paged 2']);
+  });
+} finally {
+  await server?.client.close();
+  rmSync(tempDir, { recursive: true, force: true });
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+// Checks that the HTTP mode closes client sessions left idle, and keeps sessions that are
+// in use open. Run `npm run build` first.
+
+import assert from 'assert';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { StreamableHttpServer } from './dist/core/http-server.js';
+
+const IDLE_TIMEOUT = 300;
+
+const createServer = () => {
+  const server = new Server({ name: 'sessions', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'sleep', description: 'Sleep for ms milliseconds', inputSchema: { type: 'object', properties: { ms: { type: 'number' } } } }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    await new Promise(resolve => setTimeout(resolve, request.params.arguments.ms));
+    return { content: [{ type: 'text', text: 'slept' }] };
+  });
+  return server;
+};
+
+const httpServer = new StreamableHttpServer(createServer, { host: '127.0.0.1', port: 0, sessionIdleTimeout: IDLE_TIMEOUT });
+const url = new URL(await httpServer.listen());
+const clients = [];
+
+const connect = async () => {
+  const client = new Client({ name: 'test-http-sessions', version: '1.0.0' });
+  await client.connect(new StreamableHTTPClientTransport(url));
+  clients.push(client);
+  return client;
+};
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+let failed = false;
+
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+try {
+  await test('an idle session is closed and its id is no longer accepted', async () => {
+    const client = await connect();
+    assert.strictEqual(httpServer.getSessionCount(), 1);
+    await sleep(IDLE_TIMEOUT * 2);
+    assert.strictEqual(httpServer.getSessionCount(), 0);
+    await assert.rejects(client.listTools(), /Session not found/);
+  });
+
+  await test('a session with regular requests stays open', async () => {
+    const client = await connect();
+    for (let i = 0; i < 6; i++) {
+      await sleep(IDLE_TIMEOUT / 3);
+      await client.listTools();
+    }
+    assert.strictEqual(httpServer.getSessionCount(), 1);
+    await client.close();
+  });
+
+  await test('a session is not closed while a request is in flight', async () => {
+    const client = await connect();
+    const response = await client.callTool({ name: 'sleep', arguments: { ms: IDLE_TIMEOUT * 2 } });
+    assert.strictEqual(response.content[0].text, 'slept');
+    await client.listTools();
+    await client.close();
+  });
+} finally {
+  await Promise.all(clients.map(client => client.close().catch(() => undefined)));
+  await httpServer.close();
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+// Opens knowledge graph databases written before the full-text index and the unique
+// relation index existed, and checks they are migrated. Run `npm run build` first.
+
+import assert from 'assert';
+import Database from 'better-sqlite3';
+import { copyFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { SqliteGraphStorage } from './dist/storage/sqlite-graph-storage.js';
+import { DATA_DIR } from './dist/utils/data-path.js';
+
+const tempDir = mkdtempSync(join(tmpdir(), 'chaining-memory-'));
+let failed = false;
+
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+// A copy of the repository's memory.db, which predates both indexes
+const createLegacyDatabase = (name) => {
+  const dbPath = join(tempDir, name);
+  copyFileSync('memory.db', dbPath);
+  const db = new Database(dbPath);
+  const now = new Date().toISOString();
+  const insertEntity = db.prepare('INSERT INTO entities (name, entity_type, observations, created_at, updated_at) VALUES (?, ?, ?, ?, ?)');
+  insertEntity.run('alice', 'person', JSON.stringify(['likes coffee', 'works remotely']), now, now);
+  insertEntity.run('bob', 'person', JSON.stringify(['plays chess']), now, now);
+  const insertRelation = db.prepare('INSERT INTO relations (from_entity, to_entity, relation_type, created_at) VALUES (?, ?, ?, ?)');
+  insertRelation.run('alice', 'bob', 'knows', now);
+  insertRelation.run('alice', 'bob', 'knows', now);
+  insertRelation.run('bob', 'alice', 'knows', now);
+  db.close();
+  return dbPath;
+};
+
+try {
+  await test('entities written before the full-text index are found by search', async () => {
+    const storage = new SqliteGraphStorage(createLegacyDatabase('search.db'));
+    assert.deepStrictEqual((await storage.searchNodes('coffee')).entities.map(entity => entity.name), ['alice']);
+    assert.deepStrictEqual((await storage.searchNodes('remote')).entities.map(entity => entity.name), ['alice']);
+    assert.deepStrictEqual((await storage.searchNodes('ch')).entities.map(entity => entity.name), ['bob']);
+    await storage.close();
+  });
+
+  await test('duplicate relations are removed before the unique index is created', async () => {
+    const storage = new SqliteGraphStorage(createLegacyDatabase('relations.db'));
+    const { relations } = await storage.readGraph();
+    assert.deepStrictEqual(relations.map(relation => `${relation.from}>${relation.to}`), ['alice>bob', 'bob>alice']);
+    assert.deepStrictEqual(await storage.createRelations([{ from: 'alice', to: 'bob', relationType: 'knows' }]), []);
+    await storage.close();
+  });
+
+  await test('a migrated database opens again without changes', async () => {
+    const dbPath = createLegacyDatabase('reopen.db');
+    await new SqliteGraphStorage(dbPath).close();
+    const storage = new SqliteGraphStorage(dbPath);
+    assert.strictEqual((await storage.searchNodes('coffee')).entities.length, 1);
+    assert.strictEqual((await storage.readGraph()).relations.length, 2);
+    await storage.close();
+  });
+
+  await test('data files default to the project directory, not dist/', async () => {
+    assert.strictEqual(DATA_DIR, resolve('.'));
+  });
+} finally {
+  rmSync(tempDir, { recursive: true, force: true });
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
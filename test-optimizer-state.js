@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+
+// Checks how the optimizer restores learned state and suggested routes saved for a
+// different tool set or format version, and how it applies measured tool latencies.
+// Run `npm run build` first.
+
+import assert from 'assert';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SmartRouteOptimizer } from './dist/core/optimizer.js';
+import { OptimizerStateStorage } from './dist/storage/optimizer-state-storage.js';
+import { ToolStatsManager } from './dist/managers/tool-stats.js';
+import { ToolStatsStorage } from './dist/storage/tool-stats-storage.js';
+
+const tool = (name) => ({ name, serverName: 'files', description: `${name} tool`, inputSchema: { type: 'object', properties: {} } });
+const allTools = [tool('read_file'), tool('write_file'), tool('delete_file')];
+
+const tempDir = mkdtempSync(join(tmpdir(), 'chaining-optimizer-'));
+let failed = false;
+
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+// Saves state learned from two routes over all three tools
+const saveLearnedState = async (statePath) => {
+  const optimizer = new SmartRouteOptimizer(allTools, undefined, new OptimizerStateStorage(statePath));
+  await optimizer.recordRouteOutcome('Minimal', ['read_file', 'write_file'], { successRate: 1, duration: 100 });
+  await optimizer.recordRouteOutcome('Minimal', ['read_file', 'delete_file'], { successRate: 0, duration: 200 });
+};
+
+const loadWith = async (statePath, tools) => {
+  const optimizer = new SmartRouteOptimizer(tools, undefined, new OptimizerStateStorage(statePath));
+  await optimizer.loadState();
+  return optimizer.getLearningSummary();
+};
+
+try {
+  await test('state saved for the same tool set is restored', async () => {
+    const statePath = join(tempDir, 'same.json');
+    await saveLearnedState(statePath);
+    const summary = await loadWith(statePath, allTools);
+    assert.strictEqual(summary.learnedRoutes.length, 2);
+    assert.strictEqual(summary.executedRoutes, 2);
+  });
+
+  await test('routes of removed tools are dropped and the rest is kept', async () => {
+    const statePath = join(tempDir, 'changed.json');
+    await saveLearnedState(statePath);
+    const summary = await loadWith(statePath, [tool('read_file'), tool('write_file'), tool('new_tool')]);
+    assert.deepStrictEqual(summary.learnedRoutes.map(route => route.tools), [['read_file', 'write_file']]);
+    assert.strictEqual(summary.learnedRoutes[0].successRate, 1);
+    assert.strictEqual(summary.executedRoutes, 2);
+  });
+
+  await test('suggested routes can be rated after a restart unless their tools are gone', async () => {
+    const statePath = join(tempDir, 'suggested.json');
+    const before = new SmartRouteOptimizer(allTools, undefined, new OptimizerStateStorage(statePath));
+    const routes = await before.generateRoutes('read a file and write it');
+    const route = routes[0];
+
+    const after = new SmartRouteOptimizer(allTools, undefined, new OptimizerStateStorage(statePath));
+    await after.loadState();
+    assert.strictEqual(after.getLearningSummary().suggestedRoutesTracked, routes.length);
+    const record = await after.submitRouteFeedback(route.id, { outcome: 'success', rating: 5 });
+    assert.strictEqual(record.strategy, route.name);
+    assert.deepStrictEqual(record.tools, route.tools.map(tool => tool.name));
+
+    const remaining = allTools.filter(tool => tool.name !== route.tools[0].name);
+    const changed = new SmartRouteOptimizer(remaining, undefined, new OptimizerStateStorage(statePath));
+    await changed.loadState();
+    await assert.rejects(changed.submitRouteFeedback(route.id, { outcome: 'failure' }), /not found/);
+  });
+
+  await test('state saved in another format version is discarded', async () => {
+    const statePath = join(tempDir, 'version.json');
+    await saveLearnedState(statePath);
+    const state = JSON.parse(readFileSync(statePath, 'utf-8'));
+    writeFileSync(statePath, JSON.stringify({ ...state, version: state.version + 1 }));
+    const summary = await loadWith(statePath, allTools);
+    assert.strictEqual(summary.learnedRoutes.length, 0);
+    assert.strictEqual(summary.executedRoutes, 0);
+  });
+
+  await test('measured latencies replace the estimates of the tools called since the last suggestion', async () => {
+    const toolStats = new ToolStatsManager(new ToolStatsStorage(join(tempDir, 'tool-stats.db'), 200));
+    const estimated = (name, serverName = 'files') => ({ ...tool(name), serverName, estimatedDuration: 1000 });
+    // The read_file of 'other' is shadowed by the one of 'files', listed after it
+    const optimizer = new SmartRouteOptimizer([estimated('read_file', 'other'), estimated('write_file'), estimated('read_file')], toolStats);
+    const durations = async () => {
+      const routes = await optimizer.generateRoutes('read a file and write it');
+      return Object.fromEntries(routes.flatMap(route => route.tools).map(tool => [`${tool.serverName}/${tool.name}`, tool.estimatedDuration]));
+    };
+    const recordCalls = async (serverName, toolName, duration) => {
+      for (let i = 0; i < 5; i++) {
+        await toolStats.recordCall(serverName, toolName, duration, true);
+      }
+    };
+
+    await recordCalls('files', 'read_file', 400);
+    await recordCalls('other', 'read_file', 7);
+    assert.deepStrictEqual(await durations(), { 'files/read_file': 400, 'files/write_file': 1000 });
+
+    await recordCalls('files', 'write_file', 250);
+    assert.deepStrictEqual(await durations(), { 'files/read_file': 400, 'files/write_file': 250 });
+    await toolStats.close();
+  });
+} finally {
+  rmSync(tempDir, { recursive: true, force: true });
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
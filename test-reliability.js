@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+// Starts the built server on stdio and checks what the health and reliability metrics
+// report after a failing tool call. Run `npm run build` first.
+
+import assert from 'assert';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const tempDir = mkdtempSync(join(tmpdir(), 'chaining-reliability-'));
+
+const transport = new StdioClientTransport({
+  command: 'node',
+  args: [join(process.cwd(), 'dist/index.js')],
+  cwd: tempDir,
+  stderr: 'ignore',
+  env: {
+    ...process.env,
+    MCP_DATA_DIR: tempDir,
+    MCP_DISCOVERY_CONFIG_PATHS: '[]',
+    MCP_ESSENTIAL_SERVERS: '[]',
+    MCP_SERVERS: '[]',
+  },
+});
+const client = new Client({ name: 'test-reliability', version: '1.0.0' });
+await client.connect(transport);
+
+const callTool = async (name, args) => {
+  const response = await client.callTool({ name, arguments: args });
+  const text = response.content[0].text;
+  return { isError: response.isError === true, text, result: response.isError ? undefined : JSON.parse(text) };
+};
+
+let failed = false;
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+try {
+  const failing = await callTool('get_workflow_status', { runId: 'no-such-run' });
+
+  await test('a failing call returns the error with suggestions', async () => {
+    assert.strictEqual(failing.isError, true);
+    assert.match(failing.text, /no-such-run/);
+    assert.match(failing.text, /Suggestions:/);
+  });
+
+  await test('the failing call is counted once, without retries', async () => {
+    const metrics = (await callTool('get_reliability_metrics', { toolName: 'get_workflow_status' })).result;
+    // totalRequests includes this metrics call, which is still running
+    assert.strictEqual(metrics.totalRequests, 2);
+    assert.strictEqual(metrics.successfulRequests, 0);
+    assert.strictEqual(metrics.failedRequests, 1);
+    assert.strictEqual(metrics.errorRate, 1);
+    assert.strictEqual(metrics.lastError.tool, 'get_workflow_status');
+    assert.deepStrictEqual(metrics.recentRequests.map(request => request.success), [false]);
+    assert.strictEqual(metrics.retryPolicy.maxRetries, 0);
+  });
+
+  await test('read tools of the knowledge graph have a retry policy', async () => {
+    const metrics = (await callTool('get_reliability_metrics', { toolName: 'read_graph' })).result;
+    assert.strictEqual(metrics.retryPolicy.maxRetries, 2);
+  });
+
+  await test('server health reflects the error rate', async () => {
+    const health = (await callTool('get_server_health', {})).result;
+    // One failure against the two metrics calls before, and this call
+    assert.strictEqual(health.metrics.totalRequests, 4);
+    assert.strictEqual(health.metrics.errorRate, 1 / 3);
+    assert.strictEqual(health.status, 'degraded');
+    assert.match(health.message, /error rate/);
+  });
+} finally {
+  await client.close();
+  rmSync(tempDir, { recursive: true, force: true });
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
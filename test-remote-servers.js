@@ -0,0 +1,158 @@
+#!/usr/bin/env node
+
+// Discovers and calls remote MCP servers through a local HTTP stand-in: one endpoint
+// speaks Streamable HTTP behind a bearer token, the other only the older SSE transport.
+// Run `npm run build` first.
+
+import assert from 'assert';
+import http from 'http';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const TOKEN = 'stand-in-token';
+const API_KEY = 'stand-in-key';
+
+const createServer = (toolName) => {
+  const server = new Server({ name: toolName, version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{
+      name: toolName,
+      description: 'Echo the text back',
+      inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    }],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [{ type: 'text', text: JSON.stringify({ echoed: request.params.arguments.text, via: toolName }) }],
+  }));
+  return server;
+};
+
+// Stand-in for remote servers
+const sseTransports = new Map();
+const standIn = http.createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+
+  if (url.pathname === '/mcp') {
+    if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+      res.writeHead(401).end('Unauthorized');
+      return;
+    }
+    // Stateless: a server and transport per request
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    await createServer('remote_echo').connect(transport);
+    res.on('close', () => transport.close());
+    await transport.handleRequest(req, res);
+    return;
+  }
+
+  if (req.headers['x-api-key'] !== API_KEY) {
+    res.writeHead(403).end('Forbidden');
+    return;
+  }
+  if (url.pathname === '/sse' && req.method === 'GET') {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => sseTransports.delete(transport.sessionId));
+    await createServer('legacy_echo').connect(transport);
+    return;
+  }
+  if (url.pathname === '/messages' && req.method === 'POST') {
+    const transport = sseTransports.get(url.searchParams.get('sessionId'));
+    if (transport) {
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+  }
+  // An SSE-only server rejects the Streamable HTTP initialize POST
+  res.writeHead(req.method === 'POST' ? 405 : 404).end();
+});
+
+await new Promise(resolve => standIn.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${standIn.address().port}`;
+
+const tempDir = mkdtempSync(join(tmpdir(), 'chaining-remote-'));
+const configPath = join(tempDir, 'mcp.json');
+writeFileSync(configPath, JSON.stringify({
+  mcpServers: {
+    'remote-http': { type: 'http', url: `${baseUrl}/mcp`, auth: { type: 'bearer', token: '${env:TEST_REMOTE_TOKEN}' } },
+    'remote-sse': { url: `${baseUrl}/sse`, headers: { 'X-Api-Key': API_KEY } },
+    'remote-denied': { type: 'streamable-http', url: `${baseUrl}/mcp` },
+  },
+}));
+
+process.env.TEST_REMOTE_TOKEN = TOKEN;
+process.env.MCP_DISCOVERY_CONFIG_PATHS = JSON.stringify([configPath]);
+process.env.MCP_ESSENTIAL_SERVERS = '[]';
+process.env.MCP_DISCOVERY_CACHE_TTL = '0';
+process.env.DISCOVERY_CACHE_PATH = join(tempDir, 'discovery-cache.json');
+
+const { MCPServerDiscovery } = await import('./dist/core/discovery.js');
+const { ServerSessionManager } = await import('./dist/core/session-manager.js');
+
+const sessions = new ServerSessionManager({ idleTimeout: 0 });
+const discovery = new MCPServerDiscovery(sessions);
+let failed = false;
+
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+try {
+  await discovery.discoverServers();
+  const tools = await discovery.analyzeTools();
+  const servers = Object.fromEntries(discovery.getServers().map(server => [server.name, server]));
+
+  await test('remote entries are read from the config file', async () => {
+    assert.deepStrictEqual(Object.keys(servers).filter(name => name.startsWith('remote-')).sort(), ['remote-denied', 'remote-http', 'remote-sse']);
+    assert.strictEqual(servers['remote-http'].type, 'http');
+    assert.strictEqual(servers['remote-http'].auth.token, TOKEN);
+    assert.strictEqual(servers['remote-denied'].type, 'http');
+    assert.strictEqual(servers['remote-sse'].type, undefined);
+  });
+
+  await test('Streamable HTTP server is discovered with bearer auth', async () => {
+    assert.strictEqual(discovery.getServerStatus('remote-http').status, 'ok');
+    assert.ok(tools.some(tool => tool.name === 'remote_echo' && tool.serverName === 'remote-http'));
+  });
+
+  await test('SSE-only server is discovered after falling back from Streamable HTTP', async () => {
+    assert.strictEqual(discovery.getServerStatus('remote-sse').status, 'ok');
+    assert.ok(tools.some(tool => tool.name === 'legacy_echo' && tool.serverName === 'remote-sse'));
+  });
+
+  await test('server rejecting the credentials fails discovery', async () => {
+    const status = discovery.getServerStatus('remote-denied');
+    assert.strictEqual(status.status, 'failed');
+    assert.match(status.error, /Unauthorized/);
+  });
+
+  await test('tools are called over both transports', async () => {
+    assert.deepStrictEqual(await sessions.callTool(servers['remote-http'], 'remote_echo', { text: 'hi' }), { echoed: 'hi', via: 'remote_echo' });
+    assert.deepStrictEqual(await sessions.callTool(servers['remote-sse'], 'legacy_echo', { text: 'hi' }), { echoed: 'hi', via: 'legacy_echo' });
+  });
+
+  await test('remote sessions report no process id', async () => {
+    const status = sessions.getSessionStatus().find(session => session.serverName === 'remote-http');
+    assert.strictEqual(status.connected, true);
+    assert.strictEqual(status.pid, null);
+  });
+} finally {
+  await sessions.closeAll();
+  standIn.closeAllConnections();
+  standIn.close();
+  rmSync(tempDir, { recursive: true, force: true });
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,123 @@
+#!/usr/bin/env node
+
+// Checks how tool schemas are read, bound to each other and composed into chains.
+// Run `npm run build` first.
+
+import assert from 'assert';
+import { bindChain, composeChains, inferToolIO } from './dist/core/schema-composer.js';
+
+const tool = (name, description, inputSchema = {}, outputSchema) => ({
+  name,
+  serverName: 'stand-in',
+  description,
+  inputSchema: { type: 'object', properties: {}, ...inputSchema },
+  ...(outputSchema && { outputSchema: { type: 'object', ...outputSchema } }),
+});
+
+const searchFiles = tool('search_files', 'Search files matching a pattern', {
+  properties: { pattern: { type: 'string' } },
+  required: ['pattern'],
+}, { properties: { file_path: { type: 'string' }, matches: { type: 'number' } } });
+
+const readFile = tool('read_file', 'Read a file and return its content', {
+  properties: { file_path: { type: 'string' }, encoding: { type: 'string', default: 'utf-8' } },
+  required: ['file_path', 'encoding'],
+}, { properties: { content: { type: 'string' } } });
+
+const summarize = tool('summarize_text', 'Summarize text. Returns the summary', {
+  properties: { content: { type: 'string' }, max_words: { type: 'number' } },
+  required: ['content'],
+});
+
+let failed = false;
+const test = (name, fn) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+const bindingsOf = chain => bindChain(chain).bindings.map(({ fromStep, output, toStep, input, match, inferred }) => ({ fromStep, output, toStep, input, match, inferred }));
+
+test('inferToolIO reads inputs and declared outputs from the schemas', () => {
+  const io = inferToolIO(tool('fetch', 'Fetch a page', {
+    properties: { url: { type: 'string', description: 'Page to fetch' }, timeout: { type: 'number', default: 10 } },
+    required: ['url', 'headers'],
+  }, { properties: { body: { type: 'string' } } }));
+  assert.deepStrictEqual(io.consumes, [
+    { name: 'url', type: 'string', description: 'Page to fetch', required: true, hasDefault: false },
+    { name: 'timeout', type: 'number', description: undefined, required: false, hasDefault: true },
+    { name: 'headers', type: undefined, description: undefined, required: true, hasDefault: false },
+  ]);
+  assert.deepStrictEqual(io.produces, [{ name: 'body', type: 'string', description: undefined }]);
+});
+
+test('inferToolIO infers outputs from the description only without an outputSchema', () => {
+  assert.deepStrictEqual(inferToolIO(summarize).produces, [{ name: 'summary', inferred: true }]);
+  assert.deepStrictEqual(inferToolIO(tool('fetch', 'Returns the file content of a page')).produces, [{ name: 'file_content', inferred: true }]);
+  assert.deepStrictEqual(inferToolIO(tool('ping', 'Returns a JSON object')).produces, []);
+  assert.deepStrictEqual(inferToolIO(tool('stat', 'Returns the size', {}, { properties: {} })).produces, []);
+});
+
+test('bindChain binds by name, alias and description, and reports unbound inputs', () => {
+  assert.deepStrictEqual(bindingsOf([searchFiles, readFile, summarize]), [
+    { fromStep: 0, output: 'file_path', toStep: 1, input: 'file_path', match: 'name', inferred: false },
+    { fromStep: 1, output: 'content', toStep: 2, input: 'content', match: 'name', inferred: false },
+  ]);
+  assert.deepStrictEqual(bindChain([searchFiles, readFile, summarize]).unboundInputs, [{ step: 0, tool: 'search_files', input: 'pattern' }]);
+
+  const open = tool('open', 'Open a document', { properties: { path: { type: 'string' } }, required: ['path'] });
+  assert.deepStrictEqual(bindingsOf([searchFiles, open]), [{ fromStep: 0, output: 'file_path', toStep: 1, input: 'path', match: 'alias', inferred: false }]);
+
+  const blame = tool('blame', 'Find who changed a line', {}, { properties: { author: { type: 'string' } } });
+  const notify = tool('notify', 'Send a message', { properties: { recipient: { type: 'string', description: 'Author to notify' } } });
+  assert.deepStrictEqual(bindingsOf([blame, notify]), [{ fromStep: 0, output: 'author', toStep: 1, input: 'recipient', match: 'description', inferred: false }]);
+});
+
+test('bindChain prefers declared outputs, then name matches, then the most recent step', () => {
+  const described = tool('describe', 'Returns the content', { properties: {} });
+  const declared = tool('load', 'Load', {}, { properties: { text: { type: 'string' } } });
+  // A declared alias wins over an inferred name match
+  assert.deepStrictEqual(bindingsOf([described, declared, summarize]), [{ fromStep: 1, output: 'text', toStep: 2, input: 'content', match: 'alias', inferred: false }]);
+  // Of two name matches the later step wins
+  assert.deepStrictEqual(bindingsOf([readFile, readFile, summarize]).filter(binding => binding.toStep === 2), [
+    { fromStep: 1, output: 'content', toStep: 2, input: 'content', match: 'name', inferred: false },
+  ]);
+});
+
+test('bindChain does not bind outputs of an incompatible type', () => {
+  const counter = tool('count', 'Count', {}, { properties: { content: { type: 'number' } } });
+  assert.deepStrictEqual(bindingsOf([counter, summarize]), []);
+  assert.deepStrictEqual(bindChain([counter, summarize]).unboundInputs, [{ step: 1, tool: 'summarize_text', input: 'content' }]);
+});
+
+test('composeChains extends a chain with tools whose required inputs are bound by name', () => {
+  const chains = composeChains([summarize, readFile, searchFiles], 'search files, read each file and summarize the text');
+  assert.deepStrictEqual(chains.map(chain => chain.tools.map(tool => tool.name)), [
+    ['read_file', 'summarize_text'],
+    ['search_files', 'read_file', 'summarize_text'],
+  ]);
+  const [, fromSearch] = chains;
+  assert.deepStrictEqual(fromSearch.inputs, [{ step: 0, tool: 'search_files', input: 'pattern' }]);
+  assert.ok(chains[0].relevance >= fromSearch.relevance && fromSearch.relevance > 0);
+});
+
+test('composeChains does not extend chains with alias or description bindings', () => {
+  const writeNote = tool('write_note', 'Write a note', { properties: { text: { type: 'string' } }, required: ['text'] });
+  const chains = composeChains([readFile, writeNote], 'read a file and write a note');
+  assert.deepStrictEqual(chains, []);
+  // Optional inputs bound by name do not make a chain either
+  const log = tool('log_content', 'Log content', { properties: { content: { type: 'string' } } });
+  assert.deepStrictEqual(composeChains([readFile, log], 'read a file and log the content'), []);
+});
+
+test('composeChains only uses tools the task mentions', () => {
+  assert.deepStrictEqual(composeChains([readFile, summarize], 'read a file'), []);
+  assert.deepStrictEqual(composeChains([readFile, summarize], ''), []);
+});
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+
+// Checks the expression language of workflow conditions and parameter templates.
+// Run `npm run build` first.
+
+import assert from 'assert';
+import { evaluateExpression, readPath, renderTemplate, renderTemplatePartially } from './dist/managers/workflow-expressions.js';
+
+const context = {
+  steps: {
+    search: { status: 'completed', result: { items: [{ link: 'a.html', tags: ['x', 'y'] }, { link: 'b.html' }], total: 2 } },
+    'run-tests': { status: 'failed', error: 'boom' },
+  },
+  variables: { query: 'mcp', limit: 3, empty: null },
+};
+
+let failed = false;
+const test = (name, fn) => {
+  try {
+    fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+test('operators follow the usual precedence', () => {
+  assert.strictEqual(evaluateExpression('1 + 2 * 3', {}), 7);
+  assert.strictEqual(evaluateExpression('(1 + 2) * 3', {}), 9);
+  assert.strictEqual(evaluateExpression('10 - 4 - 3', {}), 3);
+  assert.strictEqual(evaluateExpression('7 % 4 + 1', {}), 4);
+  assert.strictEqual(evaluateExpression('1 + 1 == 2 && 3 > 2', {}), true);
+  assert.strictEqual(evaluateExpression('false && true || true', {}), true);
+  assert.strictEqual(evaluateExpression('!false && -2 < 0', {}), true);
+  assert.strictEqual(evaluateExpression("'1' == 1", {}), false);
+});
+
+test('&& and || short-circuit and return the deciding operand', () => {
+  assert.strictEqual(evaluateExpression('variables.empty || variables.query', context), 'mcp');
+  assert.strictEqual(evaluateExpression('variables.empty && unknownIdentifier', context), null);
+});
+
+test('member access reads nested paths, [n] indexes and quoted keys', () => {
+  assert.strictEqual(evaluateExpression('steps.search.result.items[1].link', context), 'b.html');
+  assert.strictEqual(evaluateExpression("steps['run-tests'].status", context), 'failed');
+  assert.strictEqual(evaluateExpression('steps.search.result.items[0].tags[variables.limit - 2]', context), 'y');
+  assert.strictEqual(evaluateExpression('variables.query.length', context), 3);
+});
+
+test('missing paths are undefined instead of throwing', () => {
+  assert.strictEqual(evaluateExpression('steps.search.result.items[5].link', context), undefined);
+  assert.strictEqual(evaluateExpression('steps.missing.result', context), undefined);
+  assert.strictEqual(readPath(context.steps.search.result, 'items.9.link'), undefined);
+  assert.throws(() => evaluateExpression('nothing.here', context), /Unknown identifier 'nothing'/);
+});
+
+test('readPath accepts dotted and bracketed paths', () => {
+  assert.strictEqual(readPath(context.steps.search.result, 'items[0].link'), 'a.html');
+  assert.strictEqual(readPath(context.steps.search.result, 'items.1.link'), 'b.html');
+  assert.strictEqual(readPath(context.steps, "['run-tests'].error"), 'boom');
+});
+
+test('json, join, default and length', () => {
+  assert.strictEqual(evaluateExpression('json(steps.search.result.items[1])', context), '{"link":"b.html"}');
+  assert.strictEqual(evaluateExpression('json(variables.limit, 2)', context), '3');
+  assert.strictEqual(evaluateExpression("join(steps.search.result.items[0].tags, ' | ')", context), 'x | y');
+  assert.strictEqual(evaluateExpression('join(steps.search.result.items[0].tags)', context), 'x,y');
+  assert.throws(() => evaluateExpression('join(variables.query)', context), /expects an array/);
+  assert.strictEqual(evaluateExpression("default(variables.empty, 'fallback')", context), 'fallback');
+  assert.strictEqual(evaluateExpression("default(variables.missing, 'fallback')", context), 'fallback');
+  assert.strictEqual(evaluateExpression("default(variables.limit, 'fallback')", context), 3);
+  assert.strictEqual(evaluateExpression('length(steps.search.result.items)', context), 2);
+  assert.strictEqual(evaluateExpression('length(variables.limit)', context), undefined);
+  assert.throws(() => evaluateExpression('eval(1)', context), /Unknown function 'eval'/);
+});
+
+test('a whole-string template keeps the type, embedded ones are interpolated', () => {
+  assert.deepStrictEqual(renderTemplate({
+    items: '{{steps.search.result.items}}',
+    first: ['{{steps.search.result.items[0].link}}'],
+    text: 'Found {{steps.search.result.total}} for {{variables.query}}: {{steps.search.result.items[1]}}',
+    untouched: 4,
+  }, context), {
+    items: context.steps.search.result.items,
+    first: ['a.html'],
+    text: 'Found 2 for mcp: {"link":"b.html"}',
+    untouched: 4,
+  });
+  assert.throws(() => renderTemplate({ q: '{{variables.missing}}' }, context, 'parameters'), /Unresolved reference in parameters.q: \{\{variables.missing\}\}/);
+});
+
+test('renderTemplatePartially keeps unresolved templates and reports them', () => {
+  const unresolved = [];
+  const rendered = renderTemplatePartially({
+    query: '{{variables.query}}',
+    link: '{{steps.later.result.link}}',
+    nested: ['{{variables.limit}}', 'x {{steps.later.result.id}}'],
+  }, { steps: {}, variables: context.variables }, 'parameters', unresolved);
+  assert.deepStrictEqual(rendered, {
+    query: 'mcp',
+    link: '{{steps.later.result.link}}',
+    nested: [3, 'x {{steps.later.result.id}}'],
+  });
+  assert.deepStrictEqual(unresolved, [
+    'Unresolved reference in parameters.link: {{steps.later.result.link}}',
+    'Unresolved reference in parameters.nested[1]: {{steps.later.result.id}}',
+  ]);
+});
+
+test('__proto__, constructor and prototype are rejected', () => {
+  for (const expression of ['variables.__proto__', "variables['constructor']", 'steps.search.prototype', 'variables.query.constructor']) {
+    assert.throws(() => evaluateExpression(expression, context), /is not allowed/, expression);
+  }
+  assert.throws(() => readPath({}, '__proto__.polluted'), /is not allowed/);
+  assert.throws(() => renderTemplate('{{variables.constructor}}', context), /is not allowed/);
+});
+
+test('inherited properties are not visible', () => {
+  assert.strictEqual(evaluateExpression('variables.toString', context), undefined);
+  assert.strictEqual(evaluateExpression('variables.hasOwnProperty', context), undefined);
+  assert.strictEqual(evaluateExpression('steps.search.result.items.map', context), undefined);
+  assert.strictEqual(readPath(Object.create({ inherited: 1 }), 'inherited'), undefined);
+  assert.throws(() => evaluateExpression('toString', context), /Unknown identifier 'toString'/);
+  assert.throws(() => evaluateExpression('hasOwnProperty(1)', context), /Unknown function 'hasOwnProperty'/);
+});
+
+test('malformed expressions are rejected', () => {
+  assert.throws(() => evaluateExpression('1 +', {}), /Unexpected token/);
+  assert.throws(() => evaluateExpression("'open", {}), /Unterminated string/);
+  assert.throws(() => evaluateExpression('a ; b', { a: 1, b: 2 }), /Unexpected character ';'/);
+  assert.throws(() => evaluateExpression('(1 + 2', {}), /Expected "\)"/);
+});
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
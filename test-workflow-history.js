@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+// Checks the date filters and retention of the workflow history database.
+// Run `npm run build` first.
+
+import assert from 'assert';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WorkflowHistoryStorage } from './dist/storage/workflow-history-storage.js';
+
+const run = (runId, startedAt, status = 'completed') => ({
+  runId,
+  workflowId: 'history',
+  name: 'History',
+  totalSteps: 0,
+  status,
+  steps: [],
+  overallResult: null,
+  executionTime: 0,
+  startedAt,
+  completedAt: status === 'running' ? undefined : startedAt,
+});
+
+const tempDir = mkdtempSync(join(tmpdir(), 'chaining-history-'));
+let failed = false;
+
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+const runIds = runs => runs.map(run => run.runId);
+
+try {
+  await test('a date-only until includes the whole day', async () => {
+    const storage = new WorkflowHistoryStorage(join(tempDir, 'dates.db'), { maxRuns: 0, maxAgeDays: 0 });
+    await storage.saveRun(run('morning', '2026-10-17T08:00:00.000Z'));
+    await storage.saveRun(run('evening', '2026-10-18T23:30:00.000Z'));
+    await storage.saveRun(run('next-day', '2026-10-19T00:00:00.000Z'));
+    assert.deepStrictEqual(runIds(await storage.queryRuns({ until: '2026-10-18' })), ['evening', 'morning']);
+    assert.deepStrictEqual(runIds(await storage.queryRuns({ since: '2026-10-18', until: '2026-10-18' })), ['evening']);
+    assert.deepStrictEqual(runIds(await storage.queryRuns({ until: '2026-10-18T12:00:00Z' })), ['morning']);
+    await storage.close();
+  });
+
+  await test('maxRuns prunes finished runs and keeps running ones', async () => {
+    const storage = new WorkflowHistoryStorage(join(tempDir, 'retention.db'), { maxRuns: 2, maxAgeDays: 0 });
+    await storage.saveRun(run('long-running', '2026-10-18T00:00:00.000Z', 'running'));
+    await storage.saveRun(run('first', '2026-10-18T01:00:00.000Z'));
+    await storage.saveRun(run('second', '2026-10-18T02:00:00.000Z', 'failed'));
+    await storage.saveRun(run('third', '2026-10-18T03:00:00.000Z'));
+    assert.deepStrictEqual(runIds(await storage.queryRuns()), ['third', 'second', 'long-running']);
+    assert.ok(await storage.getRun('long-running'));
+    await storage.close();
+  });
+
+  await test('runs left running are marked failed and pruned when the database is reopened', async () => {
+    const dbPath = join(tempDir, 'interrupted.db');
+    let storage = new WorkflowHistoryStorage(dbPath, { maxRuns: 0, maxAgeDays: 0 });
+    await storage.saveRun({
+      ...run('crashed', '2026-10-18T00:00:00.000Z', 'running'),
+      steps: [
+        { stepId: 'done', status: 'completed', serverName: 'stand-in', toolName: 'echo', result: { ok: true } },
+        { stepId: 'busy', status: 'running', serverName: 'stand-in', toolName: 'sleep' },
+        { stepId: 'later', status: 'pending', serverName: 'stand-in', toolName: 'echo' },
+      ],
+    });
+    await storage.saveRun(run('newer', '2026-10-18T01:00:00.000Z'));
+    await storage.close();
+
+    storage = new WorkflowHistoryStorage(dbPath, { maxRuns: 2, maxAgeDays: 0 });
+    const crashed = await storage.getRun('crashed');
+    assert.strictEqual(crashed.status, 'failed');
+    assert.match(crashed.error, /Interrupted/);
+    assert.ok(crashed.completedAt);
+    assert.deepStrictEqual(crashed.steps.map(step => step.status), ['completed', 'skipped', 'skipped']);
+    assert.deepStrictEqual(runIds(await storage.queryRuns({ status: 'failed' })), ['crashed']);
+    assert.deepStrictEqual(runIds(await storage.queryRuns({ status: 'running' })), []);
+    await storage.close();
+
+    storage = new WorkflowHistoryStorage(dbPath, { maxRuns: 1, maxAgeDays: 0 });
+    assert.deepStrictEqual(runIds(await storage.queryRuns()), ['newer']);
+    await storage.close();
+  });
+} finally {
+  rmSync(tempDir, { recursive: true, force: true });
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);
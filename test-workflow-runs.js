@@ -0,0 +1,356 @@
+#!/usr/bin/env node
+
+// Starts the built server on stdio and runs workflows against a stand-in downstream server.
+// With --downstream, this script is instead that stdio MCP server. Run `npm run build` first.
+
+import assert from 'assert';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+// Stand-in downstream server. `sleep` waits until it is aborted; `echo` returns its arguments;
+// `flaky` fails `failures` times for each `key` before it succeeds.
+if (process.argv.includes('--downstream')) {
+  const server = new Server({ name: 'stand-in', version: '1.0.0' }, { capabilities: { tools: {} } });
+  const calls = new Map();
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      { name: 'sleep', description: 'Sleep for ms milliseconds', inputSchema: { type: 'object', properties: { ms: { type: 'number' } } } },
+      { name: 'echo', description: 'Return the arguments', inputSchema: { type: 'object', properties: {} } },
+      { name: 'flaky', description: 'Fail a number of times, then succeed', inputSchema: { type: 'object', properties: { key: { type: 'string' }, failures: { type: 'number' } } } },
+    ],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const args = request.params.arguments;
+    switch (request.params.name) {
+      case 'sleep':
+        await new Promise((resolve, reject) => {
+          const timer = setTimeout(resolve, args.ms);
+          extra.signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new Error('aborted'));
+          });
+        });
+        return { content: [{ type: 'text', text: JSON.stringify({ slept: args.ms }) }] };
+      case 'echo':
+        return { content: [{ type: 'text', text: JSON.stringify(args) }] };
+      case 'flaky':
+        const attempt = (calls.get(args.key) ?? 0) + 1;
+        calls.set(args.key, attempt);
+        return attempt <= args.failures
+          ? { content: [{ type: 'text', text: `attempt ${attempt} failed` }], isError: true }
+          : { content: [{ type: 'text', text: JSON.stringify({ attempt }) }] };
+    }
+  });
+  await server.connect(new StdioServerTransport());
+  await new Promise(() => {}); // served until the parent closes stdin
+}
+
+const tempDir = mkdtempSync(join(tmpdir(), 'chaining-workflows-'));
+
+const transport = new StdioClientTransport({
+  command: 'node',
+  args: [join(process.cwd(), 'dist/index.js')],
+  cwd: tempDir,
+  stderr: 'ignore',
+  env: {
+    ...process.env,
+    MCP_DISCOVERY_CONFIG_PATHS: '[]',
+    MCP_ESSENTIAL_SERVERS: '[]',
+    MCP_SERVERS: JSON.stringify([{ name: 'stand-in', command: 'node', args: [fileURLToPath(import.meta.url), '--downstream'] }]),
+    DISCOVERY_CACHE_PATH: join(tempDir, 'discovery-cache.json'),
+    OPTIMIZER_STATE_PATH: join(tempDir, 'optimizer-state.json'),
+    TOOL_STATS_DB_PATH: join(tempDir, 'tool-stats.db'),
+    WORKFLOW_HISTORY_DB_PATH: join(tempDir, 'workflow-history.db'),
+    MEMORY_DB_PATH: join(tempDir, 'memory.db'),
+  },
+});
+const client = new Client({ name: 'test-workflow-runs', version: '1.0.0' });
+await client.connect(transport);
+
+const callTool = async (name, args) => {
+  const response = await client.callTool({ name, arguments: args });
+  const text = response.content[0].text;
+  return { isError: response.isError === true, text, result: response.isError ? undefined : JSON.parse(text) };
+};
+
+let failed = false;
+const test = async (name, fn) => {
+  try {
+    await fn();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed = true;
+    console.error(`✗ ${name}: ${error.message}`);
+  }
+};
+
+const step = { id: 'first', serverName: 'missing-server', toolName: 'noop', parameters: {} };
+const standIn = (id, toolName, parameters, options = {}) => ({ id, serverName: 'stand-in', toolName, parameters, ...options });
+const runWorkflow = async (workflowId, steps, options = {}) => {
+  const response = await callTool('workflow_orchestrator', { workflowId, name: workflowId, steps, ...options });
+  assert.strictEqual(response.isError, false, response.text);
+  return response.result;
+};
+const stepStatuses = run => Object.fromEntries(run.steps.map(result => [result.stepId, result.status]));
+
+try {
+  await test('start_workflow rejects a workflow without steps', async () => {
+    const response = await callTool('start_workflow', { workflowId: 'no-steps', name: 'No steps' });
+    assert.strictEqual(response.isError, true);
+    assert.match(response.text, /steps/);
+    assert.doesNotMatch(response.text, /Cannot read properties/);
+    assert.strictEqual((await callTool('list_workflow_runs', {})).result.runs.length, 0);
+  });
+
+  await test('start_workflow rejects a malformed switch', async () => {
+    const response = await callTool('start_workflow', {
+      workflowId: 'bad-switch',
+      name: 'Bad switch',
+      steps: [{ ...step, switch: { cases: 'not-an-array' } }],
+    });
+    assert.strictEqual(response.isError, true);
+    assert.doesNotMatch(response.text, /Cannot read properties|is not a function/);
+  });
+
+  await test('a dry run rejects a malformed forEach', async () => {
+    const response = await callTool('workflow_orchestrator', {
+      workflowId: 'bad-foreach',
+      name: 'Bad forEach',
+      dryRun: true,
+      steps: [{ ...step, forEach: { items: 'not-a-parameter-name' } }],
+    });
+    assert.strictEqual(response.isError, true);
+    assert.doesNotMatch(response.text, /Cannot read properties|is not a function/);
+  });
+
+  await test('start_workflow rejects unknown step references and cycles without creating a run', async () => {
+    const definitions = {
+      dependsOn: [{ ...step, dependsOn: ['nowhere'] }],
+      onFailure: [{ ...step, onFailure: ['nowhere'] }],
+      switch: [{ ...step, switch: { expression: 'result', cases: { a: ['nowhere'] } } }],
+    };
+    for (const [field, steps] of Object.entries(definitions)) {
+      const response = await callTool('start_workflow', { workflowId: `unknown-${field}`, name: 'Unknown', steps });
+      assert.strictEqual(response.isError, true);
+      assert.match(response.text, new RegExp(`unknown step 'nowhere' in ${field}`));
+    }
+
+    const cycle = await callTool('start_workflow', {
+      workflowId: 'cycle',
+      name: 'Cycle',
+      steps: [{ ...step, id: 'a', dependsOn: ['b'] }, { ...step, id: 'b', dependsOn: ['a'] }],
+    });
+    assert.strictEqual(cycle.isError, true);
+    assert.match(cycle.text, /Circular dependency/);
+    assert.strictEqual((await callTool('list_workflow_runs', {})).result.runs.length, 0);
+  });
+
+  await test('a valid workflow is registered before start_workflow returns', async () => {
+    const response = await callTool('start_workflow', { workflowId: 'valid', name: 'Valid', steps: [step] });
+    assert.strictEqual(response.isError, false, response.text);
+    assert.ok(response.result.runId);
+    assert.strictEqual(response.result.totalSteps, 1);
+    const status = await callTool('get_workflow_status', { runId: response.result.runId });
+    assert.strictEqual(status.isError, false, status.text);
+  });
+
+  await test('a valid dry run is planned', async () => {
+    const response = await callTool('workflow_orchestrator', { workflowId: 'plan', name: 'Plan', dryRun: true, steps: [step] });
+    assert.strictEqual(response.isError, false, response.text);
+    assert.strictEqual(response.result.dryRun, true);
+    assert.deepStrictEqual(response.result.missingServers, ['missing-server']);
+  });
+
+  await test('cancel_workflow reports the final status of the run', async () => {
+    const started = await callTool('start_workflow', {
+      workflowId: 'long',
+      name: 'Long',
+      steps: [{ id: 'nap', serverName: 'stand-in', toolName: 'sleep', parameters: { ms: 30000 } }],
+    });
+    assert.strictEqual(started.isError, false, started.text);
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const cancelled = await callTool('cancel_workflow', { runId: started.result.runId });
+    assert.strictEqual(cancelled.isError, false, cancelled.text);
+    assert.strictEqual(cancelled.result.cancelled, true);
+    assert.strictEqual(cancelled.result.status, 'cancelled');
+
+    // The step in flight was stopped, not failed
+    const status = await callTool('get_workflow_status', { runId: started.result.runId });
+    assert.strictEqual(status.result.steps[0].status, 'skipped');
+    assert.strictEqual(status.result.steps[0].skipReason, 'Workflow cancelled');
+    assert.strictEqual(status.result.steps[0].error, undefined);
+  });
+
+  await test('a step timeout fails the attempt that ran too long', async () => {
+    const run = await runWorkflow('step-timeout', [
+      standIn('slow', 'sleep', { ms: 5000 }, { timeout: 200 }),
+      standIn('after', 'sleep', { ms: 0 }, { dependsOn: ['slow'] }),
+    ]);
+    assert.strictEqual(run.status, 'failed');
+    assert.deepStrictEqual(stepStatuses(run), { slow: 'failed', after: 'skipped' });
+    assert.strictEqual(run.steps[0].attempts[0].errorType, 'timeout');
+    assert.ok(run.steps[0].executionTime < 2000);
+  });
+
+  await test('the workflow timeout stops the steps in flight and skips the rest', async () => {
+    const run = await runWorkflow('workflow-timeout', [
+      standIn('slow', 'sleep', { ms: 5000 }),
+      standIn('after', 'sleep', { ms: 0 }, { dependsOn: ['slow'] }),
+    ], { timeout: 300 });
+    assert.strictEqual(run.status, 'failed');
+    assert.match(run.error, /timed out after 300ms/);
+    assert.deepStrictEqual(stepStatuses(run), { slow: 'skipped', after: 'skipped' });
+    assert.match(run.steps[0].skipReason, /timed out/);
+    assert.ok(run.executionTime < 2000);
+  });
+
+  await test('a failing step is retried with exponential backoff until it succeeds', async () => {
+    const run = await runWorkflow('retry', [standIn('flaky', 'flaky', { key: 'retry', failures: 2 }, {
+      retryOnFailure: true,
+      maxRetries: 3,
+      retryPolicy: { initialDelay: 100, backoffMultiplier: 2, jitter: 0 },
+    })]);
+    assert.strictEqual(run.status, 'completed');
+    const [flaky] = run.steps;
+    assert.strictEqual(flaky.status, 'completed');
+    assert.deepStrictEqual(flaky.result, { attempt: 3 });
+    assert.strictEqual(flaky.retryCount, 2);
+    assert.deepStrictEqual(flaky.attempts.map(attempt => attempt.errorType), ['tool_error', 'tool_error', undefined]);
+    assert.deepStrictEqual(flaky.attempts.map(attempt => attempt.retryDelay), [100, 200, undefined]);
+    const waited = Date.parse(flaky.attempts[2].startedAt) - Date.parse(flaky.attempts[1].completedAt);
+    assert.ok(waited >= 190, `waited ${waited}ms before the third attempt`);
+  });
+
+  await test('a step fails once its retries are used up', async () => {
+    const run = await runWorkflow('retries-exhausted', [
+      standIn('flaky', 'flaky', { key: 'exhausted', failures: 5 }, { retryOnFailure: true, maxRetries: 1, retryPolicy: { initialDelay: 10 } }),
+    ]);
+    assert.strictEqual(run.status, 'failed');
+    assert.strictEqual(run.steps[0].status, 'failed');
+    assert.strictEqual(run.steps[0].attempts.length, 2);
+    assert.match(run.steps[0].error, /attempt 2 failed/);
+  });
+
+  await test('errors not listed in retryOn are not retried', async () => {
+    const run = await runWorkflow('retry-on', [
+      standIn('flaky', 'flaky', { key: 'retry-on', failures: 1 }, { retryOnFailure: true, retryPolicy: { retryOn: ['timeout'] } }),
+    ]);
+    assert.strictEqual(run.steps[0].status, 'failed');
+    assert.strictEqual(run.steps[0].attempts.length, 1);
+  });
+
+  await test('when conditions decide which steps run', async () => {
+    const run = await runWorkflow('when', [
+      standIn('check', 'echo', { value: 'yes' }),
+      standIn('on-yes', 'echo', {}, { dependsOn: ['check'], when: "steps.check.result.value == 'yes'" }),
+      standIn('on-no', 'echo', {}, { dependsOn: ['check'], when: "steps.check.result.value == 'no'" }),
+    ]);
+    assert.strictEqual(run.status, 'completed');
+    assert.deepStrictEqual(stepStatuses(run), { check: 'completed', 'on-yes': 'completed', 'on-no': 'skipped' });
+    assert.match(run.steps.find(result => result.stepId === 'on-no').skipReason, /Condition not met/);
+  });
+
+  await test('onFailure fallbacks run only for the step that failed', async () => {
+    const run = await runWorkflow('on-failure', [
+      standIn('broken', 'flaky', { key: 'on-failure', failures: 9 }, { onFailure: ['recover'] }),
+      standIn('recover', 'echo', { recovered: true }),
+      standIn('fine', 'echo', {}, { onFailure: ['unused'] }),
+      standIn('unused', 'echo', {}),
+    ]);
+    assert.strictEqual(run.status, 'completed');
+    assert.deepStrictEqual(stepStatuses(run), { broken: 'failed', fine: 'completed', recover: 'completed', unused: 'skipped' });
+  });
+
+  await test('switch runs the steps of the selected case', async () => {
+    const run = await runWorkflow('switch', [
+      standIn('pick', 'echo', { kind: 'b' }, {
+        switch: { expression: 'result.kind', cases: { a: ['on-a'], b: ['on-b'] }, default: ['other'] },
+      }),
+      standIn('on-a', 'echo', {}),
+      standIn('on-b', 'echo', {}),
+      standIn('other', 'echo', {}),
+    ]);
+    assert.strictEqual(run.status, 'completed');
+    assert.strictEqual(run.steps[0].branch, 'b');
+    assert.deepStrictEqual(stepStatuses(run), { pick: 'completed', 'on-a': 'skipped', 'on-b': 'completed', other: 'skipped' });
+  });
+
+  await test('forEach runs at most `concurrency` iterations at a time and gathers results in item order', async () => {
+    const run = await runWorkflow('for-each', [
+      standIn('naps', 'sleep', { ms: [300, 100, 200, 50] }, { forEach: { parameter: 'ms', concurrency: 2 } }),
+    ]);
+    assert.strictEqual(run.status, 'completed');
+    const naps = run.steps.find(result => result.stepId === 'naps');
+    assert.strictEqual(naps.status, 'completed');
+    assert.deepStrictEqual(naps.result, [{ slept: 300 }, { slept: 100 }, { slept: 200 }, { slept: 50 }]);
+
+    const iterations = run.steps.filter(result => result.parentStepId === 'naps');
+    assert.deepStrictEqual(iterations.map(result => [result.iteration, result.status]).sort(),
+      [[0, 'completed'], [1, 'completed'], [2, 'completed'], [3, 'completed']]);
+    const running = time => iterations.filter(result =>
+      Date.parse(result.startedAt) <= time && time < Date.parse(result.completedAt)).length;
+    assert.strictEqual(Math.max(...iterations.map(result => running(Date.parse(result.startedAt)))), 2);
+  });
+
+  await test('a failing iteration fails the forEach step after the others finish', async () => {
+    const run = await runWorkflow('for-each-failure', [
+      standIn('calls', 'flaky', { key: 'for-each', failures: [0, 9, 0] }, { forEach: { parameter: 'failures', concurrency: 1 } }),
+    ]);
+    assert.strictEqual(run.status, 'failed');
+    assert.deepStrictEqual(stepStatuses(run), { 'calls[0]': 'completed', 'calls[1]': 'failed', 'calls[2]': 'completed', calls: 'failed' });
+    assert.match(run.steps.find(result => result.stepId === 'calls').error, /1 of 3 iterations/);
+  });
+
+  await test('resume_workflow reuses completed steps and reruns the failed ones', async () => {
+    const failedRun = await runWorkflow('resume', [
+      standIn('first', 'echo', { value: 1 }),
+      standIn('second', 'flaky', { key: 'resume', failures: 1 }, { dependsOn: ['first'] }),
+      standIn('third', 'echo', { value: 3 }, { dependsOn: ['second'] }),
+    ]);
+    assert.strictEqual(failedRun.status, 'failed');
+    assert.deepStrictEqual(stepStatuses(failedRun), { first: 'completed', second: 'failed', third: 'skipped' });
+
+    const resumed = await callTool('resume_workflow', { runId: failedRun.runId });
+    assert.strictEqual(resumed.isError, false, resumed.text);
+    assert.strictEqual(resumed.result.status, 'completed');
+    assert.strictEqual(resumed.result.resumedFrom, failedRun.runId);
+    assert.deepStrictEqual(stepStatuses(resumed.result), { first: 'completed', second: 'completed', third: 'completed' });
+    const reusedFrom = Object.fromEntries(resumed.result.steps.map(result => [result.stepId, result.reusedFrom]));
+    assert.deepStrictEqual(reusedFrom, { first: failedRun.runId, second: undefined, third: undefined });
+    assert.deepStrictEqual(resumed.result.steps.find(result => result.stepId === 'second').result, { attempt: 2 });
+
+    const again = await callTool('resume_workflow', { runId: resumed.result.runId });
+    assert.strictEqual(again.isError, true);
+    assert.match(again.text, /nothing to resume/);
+  });
+
+  await test('resume_workflow reruns a step whose parameters are overridden, and its dependents', async () => {
+    const failedRun = await runWorkflow('resume-override', [
+      standIn('first', 'echo', { value: 1 }),
+      standIn('second', 'echo', { value: '{{steps.first.result.value}}' }, { dependsOn: ['first'] }),
+      standIn('broken', 'flaky', { key: 'resume-override', failures: 1 }),
+    ]);
+    assert.strictEqual(failedRun.status, 'failed');
+
+    const resumed = await callTool('resume_workflow', { runId: failedRun.runId, parameters: { first: { value: 2 } } });
+    assert.strictEqual(resumed.isError, false, resumed.text);
+    const results = Object.fromEntries(resumed.result.steps.map(result => [result.stepId, result]));
+    assert.strictEqual(results.first.reusedFrom, undefined);
+    assert.deepStrictEqual(results.second.result, { value: 2 });
+    assert.strictEqual(results.broken.status, 'completed');
+  });
+} finally {
+  await client.close();
+  rmSync(tempDir, { recursive: true, force: true });
+}
+
+console.log(failed ? '\nSome tests failed' : '\nAll tests passed');
+process.exit(failed ? 1 : 0);